@@ -1,10 +1,13 @@
-import { ApplePlaybackState, MusicKitInstance } from "./types";
+import { ApplePlaybackState, MusicKitInstance, UpcomingTrack } from "./types";
 
 /**
  * This script runs in the page context (not isolated world)
  * It can access window.MusicKit directly
  */
 
+// How many upcoming queue items are sent for listeners to prefetch
+const MAX_UPCOMING_TRACKS = 3;
+
 function mapPlaybackState(state: number): "playing" | "paused" | "stopped" {
   // MusicKit playbackState: 0 = none, 1 = loading, 2 = playing, 3 = paused, 4 = stopped
   switch (state) {
@@ -33,9 +36,13 @@ function extractPlaybackState(music: MusicKitInstance): ApplePlaybackState | nul
       positionSec: music.currentPlaybackTime || 0,
       playbackState: mapPlaybackState(music.playbackState),
       hostTimestampMs: Date.now(),
+      isrc: null,
+      catalogId: null,
     };
   }
 
+  const playParams = nowPlayingItem.attributes?.playParams;
+
   return {
     trackId: nowPlayingItem.id || null,
     title: nowPlayingItem.title || null,
@@ -45,9 +52,35 @@ function extractPlaybackState(music: MusicKitInstance): ApplePlaybackState | nul
     positionSec: music.currentPlaybackTime || 0,
     playbackState: mapPlaybackState(music.playbackState),
     hostTimestampMs: Date.now(),
+    isrc: nowPlayingItem.isrc || nowPlayingItem.attributes?.isrc || null,
+    catalogId: playParams?.catalogId || playParams?.id || null,
   };
 }
 
+function extractUpcoming(music: MusicKitInstance): UpcomingTrack[] {
+  const queue = music.queue;
+  if (!queue || !Array.isArray(queue.items)) {
+    return [];
+  }
+
+  const start = Math.max(0, queue.position + 1);
+  return queue.items
+    .slice(start, start + MAX_UPCOMING_TRACKS)
+    .filter((item) => item && item.id && item.title)
+    .map((item) => {
+      const playParams = item.attributes?.playParams;
+      return {
+        trackId: item.id,
+        title: item.title,
+        artist: item.artistName || null,
+        album: item.albumName || null,
+        durationSec: item.duration ? item.duration / 1000 : null,
+        isrc: item.isrc || item.attributes?.isrc || null,
+        catalogId: playParams?.catalogId || playParams?.id || null,
+      };
+    });
+}
+
 function postState(state: ApplePlaybackState) {
   window.postMessage(
     {
@@ -59,6 +92,17 @@ function postState(state: ApplePlaybackState) {
   );
 }
 
+function postQueue(upcoming: UpcomingTrack[]) {
+  window.postMessage(
+    {
+      source: "APPLE_SYNC",
+      type: "APPLE_QUEUE",
+      payload: upcoming,
+    },
+    "*"
+  );
+}
+
 async function waitForMusicKit(): Promise<MusicKitInstance> {
   const maxAttempts = 50; // 10 seconds total (200ms * 50)
   let attempts = 0;
@@ -100,15 +144,29 @@ async function init() {
       }
     }
 
+    let lastQueueKey: string | null = null;
+
+    function sendQueueIfChanged() {
+      const upcoming = extractUpcoming(music);
+      const queueKey = upcoming.map((track) => track.trackId).join(",");
+      if (queueKey !== lastQueueKey) {
+        postQueue(upcoming);
+        lastQueueKey = queueKey;
+      }
+    }
+
     // Subscribe to MusicKit events
     music.addEventListener("playbackStateDidChange", sendStateIfChanged);
     music.addEventListener("mediaItemDidChange", sendStateIfChanged);
     music.addEventListener("playbackTimeDidChange", sendStateIfChanged);
+    music.addEventListener("queueItemsDidChange", sendQueueIfChanged);
+    music.addEventListener("queuePositionDidChange", sendQueueIfChanged);
 
     // Also poll periodically to catch time changes (every 500ms)
     const pollInterval = setInterval(() => {
       if (music) {
         sendStateIfChanged();
+        sendQueueIfChanged();
       } else {
         clearInterval(pollInterval);
       }
@@ -116,6 +174,7 @@ async function init() {
 
     // Send initial state
     sendStateIfChanged();
+    sendQueueIfChanged();
 
     console.log("[Apple Sync] Playback monitoring active");
   } catch (error) {
@@ -1,4 +1,14 @@
-import { ExtensionMessage, WsMessage, ApplePlaybackState } from "./types";
+import {
+  ExtensionMessage,
+  WsMessage,
+  SequencedWsMessage,
+  ApplePlaybackState,
+  TrackMatchInfo,
+  UpcomingTrack,
+  MemberInfo,
+  HandoffReason,
+  HostChangeReason,
+} from "./types";
 
 // Configuration - can be overridden via chrome.storage.local
 let WS_URL = "ws://localhost:3000";
@@ -13,20 +23,76 @@ let shouldAutoReconnect = true; // Control auto-reconnect behavior
 let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null; // Store timeout ID to cancel if needed
 
 // Session configuration
-let sessionId: string | null = null;
-let role: "host" | "listener" | null = null;
+let sessionId: string | null = null; // hosts: from config; listeners: learned from JOINED
+let ownerSecret: string | null = null; // hosts: proves ownership of sessionId
+let joinCode: string | null = null; // listeners: code of the session to join
+let configuredRole: "host" | "listener" | null = null; // role chosen in the popup, used to JOIN
+let role: "host" | "listener" | null = null; // current role in the session (the host role can be handed off)
 let listenerId: string | null = null;
+let displayName: string | null = null;
+
+// Session presence (kept up to date from relay events, read by the popup)
+let hostOnline = false;
+let members: MemberInfo[] = [];
+let listenerCount = 0;
+let clientId: string | null = null; // our relay-assigned member id
+let djRotationTracks = 0; // 0 when DJ rotation is off
+
+// Resuming after a reconnect or service worker restart (token is kept in chrome.storage.session)
+let resumeToken: string | null = null;
+let lastSeq = 0; // highest relay sequence number received in this session
+
+// Host handoff offered to us, waiting for the user to accept or decline in the popup
+let pendingHandoff: { requestId: string; from: MemberInfo; reason: HandoffReason; expiresAt: number } | null = null;
+
+// What a listener does when the host disconnects and doesn't come back within the relay's grace period
+type HostLostPolicy = "pause" | "finish_track" | "continue";
+let hostLostPolicy: HostLostPolicy = "pause";
+let hostLost = false; // true between HOST_LOST and the host coming back
+let hostLostPauseTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
 // Listener sync state
 let lastAppliedTrackId: string | null = null;
-let lastAppliedPositionMs: number = 0;
-let lastAppliedHostTimestampMs: number = 0;
+let lastAppliedUri: string | null = null; // Spotify track we last started (from play-track response)
+let spotifyRetryAt = 0; // backend reported Spotify unavailable (rate limit / circuit open) until this time
 let lastSyncCallTime: number = 0;
 let lastSeekTime: number = 0;
+let lastHostState: ApplePlaybackState | null = null; // most recent host state (for replay and popup)
+let lastMatch: TrackMatchInfo | null = null; // relay's match for the current host track
 const SYNC_THROTTLE_MS = 200; // Max sync calls every 200ms
 const SEEK_THROTTLE_MS = 1000; // Max seek calls every 1 second
 const DRIFT_THRESHOLD_MS = 750; // Seek if drift > 750ms
 
+// Gapless transitions: the host's next track is added to the Spotify queue shortly before the current one ends
+let appleQueue: UpcomingTrack[] = []; // host: upcoming tracks read from MusicKit
+let upcomingTracks: UpcomingTrack[] = []; // listener: host's upcoming tracks with the relay's matches
+let queuedNext: { appleTrackId: string; spotifyUri: string | null } | null = null; // uri set once Spotify accepted it
+let queueHeldTrackId: string | null = null; // host track we skipped to past a queued one - nothing is queued behind it
+const QUEUE_LEAD_MS = 5000; // Queue the next track when this much of the current one is left
+
+// Closed-loop drift correction against Spotify's reported position
+let playerPollIntervalId: ReturnType<typeof setInterval> | null = null;
+let lastPlayerCheckTime: number = 0;
+let playerCheckInFlight = false;
+const PLAYER_POLL_INTERVAL_MS = 5000; // Regular check of the real Spotify player
+const PLAYER_CHECK_MIN_GAP_MS = 1000; // Min gap between checks (host discontinuities trigger early ones)
+const HOST_LOST_PAUSE_LEAD_MS = 1000; // "finish_track" pauses this long before the track would end
+
+// Clock sync with the relay (NTP-style offset estimation)
+let clockOffsetMs: number | null = null; // server time - local time
+let timeSyncSamples: { offsetMs: number; rttMs: number }[] = [];
+let timeSyncIntervalId: ReturnType<typeof setInterval> | null = null;
+const TIME_SYNC_BURST_SIZE = 5; // Pings sent per sync round
+const TIME_SYNC_BURST_SPACING_MS = 250;
+const TIME_SYNC_INTERVAL_MS = 60000; // Re-sync every minute
+const TIME_SYNC_MAX_SAMPLES = 15; // Rolling window of samples kept
+
+// Liveness: browsers hide protocol-level pings, so we ping the relay ourselves and watch for any reply
+let lastServerMessageTime: number = 0;
+let livenessIntervalId: ReturnType<typeof setInterval> | null = null;
+const LIVENESS_PING_INTERVAL_MS = 15000; // Also keeps the service worker awake while connected
+const LIVENESS_TIMEOUT_MS = 45000; // Treat the connection as dead after this long without a message
+
 /**
  * Generate a UUID for listenerId
  */
@@ -43,9 +109,23 @@ function generateUUID(): string {
  */
 async function loadConfig(): Promise<void> {
   try {
-    const result = await chrome.storage.local.get(["sessionId", "role", "wsUrl", "backendUrl"]);
-    sessionId = result.sessionId || "default-session";
-    role = result.role || "host";
+    const result = await chrome.storage.local.get([
+      "sessionId",
+      "ownerSecret",
+      "joinCode",
+      "role",
+      "wsUrl",
+      "backendUrl",
+      "displayName",
+      "hostLostPolicy",
+    ]);
+    configuredRole = result.role || "host";
+    role = configuredRole;
+    sessionId = configuredRole === "host" ? result.sessionId || null : null;
+    ownerSecret = result.ownerSecret || null;
+    joinCode = result.joinCode || null;
+    displayName = result.displayName || null;
+    hostLostPolicy = result.hostLostPolicy || "pause";
     
     // Load custom URLs if set, otherwise use defaults
     if (result.wsUrl) {
@@ -55,23 +135,21 @@ async function loadConfig(): Promise<void> {
       BACKEND_URL = result.backendUrl;
     }
 
-    // Generate and persist listenerId if listener
-    if (role === "listener") {
-      const syncResult = await chrome.storage.sync.get(["listenerId"]);
-      if (syncResult.listenerId) {
-        listenerId = syncResult.listenerId;
-      } else {
-        listenerId = generateUUID();
-        await chrome.storage.sync.set({ listenerId });
-        console.log("[Background] Generated listenerId:", listenerId);
-      }
+    // Generate and persist listenerId (hosts need one too once they hand the host role off)
+    const syncResult = await chrome.storage.sync.get(["listenerId"]);
+    if (syncResult.listenerId) {
+      listenerId = syncResult.listenerId;
+    } else {
+      listenerId = generateUUID();
+      await chrome.storage.sync.set({ listenerId });
+      console.log("[Background] Generated listenerId:", listenerId);
     }
 
-    console.log("[Background] Config loaded:", { sessionId, role, listenerId, WS_URL, BACKEND_URL });
+    console.log("[Background] Config loaded:", { sessionId, joinCode, role, listenerId, WS_URL, BACKEND_URL });
   } catch (error) {
     console.error("[Background] Failed to load config:", error);
     // Use defaults
-    sessionId = "default-session";
+    configuredRole = "host";
     role = "host";
   }
 }
@@ -105,30 +183,113 @@ async function connectWebSocket(): Promise<void> {
   ws.onopen = () => {
     console.log("[Background] WebSocket connected");
     reconnectAttempts = 0;
+    startLivenessCheck();
 
-    // Send JOIN message
-    if (sessionId && role && ws) {
-      const joinMessage: WsMessage = {
-        type: "JOIN",
-        sessionId,
-        role,
-        listenerId: role === "listener" ? listenerId || undefined : undefined,
-      };
-      ws.send(JSON.stringify(joinMessage));
-      console.log("[Background] Sent JOIN message:", joinMessage);
+    // Pick up where we left off if the relay still holds our seat, otherwise join fresh
+    if (resumeToken && ws) {
+      const resumeMessage: WsMessage = { type: "RESUME", resumeToken, lastSeq };
+      ws.send(JSON.stringify(resumeMessage));
+      console.log("[Background] Sent RESUME message, last seq:", lastSeq);
+    } else {
+      sendJoin();
+    }
+
+    startTimeSync();
+    if (role === "listener") {
+      startPlayerPolling();
     }
   };
 
   ws.onmessage = (event) => {
+    lastServerMessageTime = Date.now();
     try {
-      const message: WsMessage = JSON.parse(event.data);
+      const message: SequencedWsMessage = JSON.parse(event.data);
+      if (typeof message.seq === "number" && message.seq > lastSeq) {
+        lastSeq = message.seq;
+      }
 
-      if (message.type === "JOINED") {
-        console.log("[Background] Joined session:", message.sessionId);
+      if (message.type === "TIME_PONG") {
+        handleTimePong(message);
+      } else if (message.type === "JOINED") {
+        console.log("[Background] Joined session:", message.sessionId, "as", message.role);
+        sessionId = message.sessionId;
+        clientId = message.clientId;
+        lastSeq = message.seq;
+        saveResumeToken(message.resumeToken);
+        applyRole(message.role);
+        sendQueueUpdate();
+      } else if (message.type === "RESUMED") {
+        console.log("[Background] Resumed session:", message.sessionId, "as", message.role);
+        sessionId = message.sessionId;
+        clientId = message.clientId;
+        saveResumeToken(message.resumeToken);
+        applyRole(message.role);
+      } else if (message.type === "RESUME_FAILED") {
+        console.log("[Background] Could not resume, joining again:", message.message);
+        clearResumeToken();
+        resetSessionState();
+        sendJoin();
       } else if (message.type === "STATE_UPDATE") {
         if (role === "listener") {
-          handleHostStateUpdate(message.payload);
+          handleHostStateUpdate(message.payload, message.match);
+        }
+      } else if (message.type === "PRESENCE") {
+        hostOnline = message.hostOnline;
+        members = message.members;
+        listenerCount = message.listenerCount;
+        djRotationTracks = message.djRotationTracks;
+        if (hostOnline) {
+          handleHostBack();
         }
+      } else if (message.type === "MEMBER_JOINED") {
+        members = [...members.filter((m) => m.clientId !== message.member.clientId), message.member];
+        listenerCount = message.listenerCount;
+      } else if (message.type === "MEMBER_LEFT") {
+        members = members.filter((m) => m.clientId !== message.member.clientId);
+        listenerCount = message.listenerCount;
+      } else if (message.type === "HOST_ONLINE") {
+        hostOnline = true;
+        console.log("[Background] Host is online");
+        handleHostBack();
+      } else if (message.type === "HOST_OFFLINE") {
+        hostOnline = false;
+        console.log("[Background] Host went offline");
+      } else if (message.type === "HOST_CHANGED") {
+        handleHostChanged(message.host, message.previousHost, message.reason, message.listenerCount);
+      } else if (message.type === "HANDOFF_OFFERED") {
+        pendingHandoff = {
+          requestId: message.requestId,
+          from: message.from,
+          reason: message.reason,
+          expiresAt: Date.now() + message.expiresInMs,
+        };
+        console.log(`[Background] Host role offered by ${message.from.displayName || "the host"} (${message.reason})`);
+      } else if (message.type === "HANDOFF_CANCELLED") {
+        if (pendingHandoff?.requestId === message.requestId) {
+          pendingHandoff = null;
+        }
+      } else if (message.type === "HANDOFF_DECLINED") {
+        console.log(
+          `[Background] Handoff to ${message.target.displayName || message.target.clientId} not accepted (${message.reason})`
+        );
+      } else if (message.type === "DJ_ROTATION") {
+        djRotationTracks = message.tracksPerTurn;
+      } else if (message.type === "HOST_LOST") {
+        if (role === "listener") {
+          handleHostLost();
+        }
+      } else if (message.type === "MATCH_UPDATED") {
+        if (role === "listener") {
+          handleMatchUpdated(message.appleTrackId, message.match);
+        }
+      } else if (message.type === "QUEUE_UPDATE") {
+        upcomingTracks = message.upcoming;
+      } else if (message.type === "SESSION_CLOSED" || message.type === "KICKED") {
+        // Removed by an admin - rejoining automatically would undo it
+        console.warn(
+          `[Background] ${message.type === "KICKED" ? "Removed from" : "Closed"} session ${message.sessionId}: ${message.reason}`
+        );
+        disconnectWebSocket();
       } else if (message.type === "ERROR") {
         console.error("[Background] WebSocket error:", message.message);
       }
@@ -143,26 +304,224 @@ async function connectWebSocket(): Promise<void> {
 
   ws.onclose = () => {
     console.log("[Background] WebSocket closed");
-    ws = null;
-
-    // Attempt reconnect with exponential backoff (only if auto-reconnect is enabled)
-    if (shouldAutoReconnect && reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
-      const delay = INITIAL_RECONNECT_DELAY * Math.pow(2, reconnectAttempts);
-      reconnectAttempts++;
-      console.log(`[Background] Reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
-      // Store timeout ID so we can cancel it if disconnect is called
-      reconnectTimeoutId = setTimeout(() => {
-        reconnectTimeoutId = null; // Clear the ID when timeout fires
-        connectWebSocket();
-      }, delay);
-    } else if (!shouldAutoReconnect) {
-      console.log("[Background] Auto-reconnect disabled, connection stopped");
-    } else {
-      console.error("[Background] Max reconnection attempts reached");
-    }
+    handleConnectionLost();
   };
 }
 
+/**
+ * Send JOIN (hosts authenticate with the owner secret, listeners with the join code)
+ */
+function sendJoin(): void {
+  if (configuredRole === "host" && sessionId && ownerSecret && ws) {
+    const joinMessage: WsMessage = {
+      type: "JOIN",
+      role: configuredRole,
+      sessionId,
+      ownerSecret,
+      listenerId: listenerId || undefined,
+      displayName: displayName || undefined,
+    };
+    ws.send(JSON.stringify(joinMessage));
+    console.log("[Background] Sent JOIN message as host for session:", sessionId);
+  } else if (configuredRole === "listener" && joinCode && ws) {
+    const joinMessage: WsMessage = {
+      type: "JOIN",
+      role: configuredRole,
+      joinCode,
+      listenerId: listenerId || undefined,
+      displayName: displayName || undefined,
+    };
+    ws.send(JSON.stringify(joinMessage));
+    console.log("[Background] Sent JOIN message:", joinMessage);
+  } else {
+    console.warn("[Background] No session configured, not joining. Create or join a session in the popup.");
+  }
+}
+
+/**
+ * Stop per-connection work and reconnect with backoff (only if auto-reconnect is enabled)
+ * Session state is kept while we hold a resume token - the relay keeps our seat for a while.
+ */
+function handleConnectionLost(): void {
+  ws = null;
+  stopLivenessCheck();
+  stopTimeSync();
+  clearHostLostPauseTimeout();
+  stopPlayerPolling();
+  if (!resumeToken) {
+    resetSessionState();
+  }
+
+  // Attempt reconnect with exponential backoff (only if auto-reconnect is enabled)
+  if (shouldAutoReconnect && reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
+    const delay = INITIAL_RECONNECT_DELAY * Math.pow(2, reconnectAttempts);
+    reconnectAttempts++;
+    console.log(`[Background] Reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
+    // Store timeout ID so we can cancel it if disconnect is called
+    reconnectTimeoutId = setTimeout(() => {
+      reconnectTimeoutId = null; // Clear the ID when timeout fires
+      connectWebSocket();
+    }, delay);
+  } else if (!shouldAutoReconnect) {
+    console.log("[Background] Auto-reconnect disabled, connection stopped");
+  } else {
+    console.error("[Background] Max reconnection attempts reached");
+  }
+}
+
+/**
+ * Forget everything we knew about the session (we rejoin with the configured role)
+ */
+function resetSessionState(): void {
+  hostOnline = false;
+  members = [];
+  listenerCount = 0;
+  clientId = null;
+  djRotationTracks = 0;
+  pendingHandoff = null;
+  role = configuredRole;
+  hostLost = false;
+  lastSeq = 0;
+  upcomingTracks = [];
+}
+
+/**
+ * Keep the resume token in session storage so a restarted service worker can resume too
+ */
+function saveResumeToken(token: string): void {
+  resumeToken = token;
+  chrome.storage.session.set({ resumeToken: token }).catch((error) => {
+    console.error("[Background] Failed to save resume token:", error);
+  });
+}
+
+function clearResumeToken(): void {
+  resumeToken = null;
+  chrome.storage.session.remove("resumeToken").catch((error) => {
+    console.error("[Background] Failed to clear resume token:", error);
+  });
+}
+
+/**
+ * Ping the relay regularly and drop the connection if it stops answering
+ */
+function startLivenessCheck(): void {
+  stopLivenessCheck();
+  lastServerMessageTime = Date.now();
+  livenessIntervalId = setInterval(checkLiveness, LIVENESS_PING_INTERVAL_MS);
+}
+
+function stopLivenessCheck(): void {
+  if (livenessIntervalId !== null) {
+    clearInterval(livenessIntervalId);
+    livenessIntervalId = null;
+  }
+}
+
+function checkLiveness(): void {
+  if (!ws) {
+    return;
+  }
+
+  const silentMs = Date.now() - lastServerMessageTime;
+  if (silentMs > LIVENESS_TIMEOUT_MS) {
+    console.warn(`[Background] No message from relay for ${silentMs}ms, reconnecting`);
+    // A half-open socket can take minutes to fire onclose - abandon it and reconnect now
+    const deadSocket = ws;
+    deadSocket.onopen = null;
+    deadSocket.onmessage = null;
+    deadSocket.onerror = null;
+    deadSocket.onclose = null;
+    deadSocket.close();
+    handleConnectionLost();
+    return;
+  }
+
+  // Any reply counts; the pong also feeds clock sync
+  if (ws.readyState === WebSocket.OPEN) {
+    const ping: WsMessage = { type: "TIME_PING", clientSendMs: Date.now() };
+    ws.send(JSON.stringify(ping));
+  }
+}
+
+/**
+ * Start periodic clock sync rounds with the relay
+ */
+function startTimeSync(): void {
+  stopTimeSync();
+  // Samples from a previous connection may have gone through a different route
+  timeSyncSamples = [];
+  sendTimeSyncBurst();
+  timeSyncIntervalId = setInterval(sendTimeSyncBurst, TIME_SYNC_INTERVAL_MS);
+}
+
+function stopTimeSync(): void {
+  if (timeSyncIntervalId !== null) {
+    clearInterval(timeSyncIntervalId);
+    timeSyncIntervalId = null;
+  }
+}
+
+/**
+ * Send a burst of TIME_PINGs spaced apart so one slow round trip doesn't dominate
+ */
+function sendTimeSyncBurst(): void {
+  for (let i = 0; i < TIME_SYNC_BURST_SIZE; i++) {
+    setTimeout(() => {
+      if (ws && ws.readyState === WebSocket.OPEN) {
+        const ping: WsMessage = { type: "TIME_PING", clientSendMs: Date.now() };
+        ws.send(JSON.stringify(ping));
+      }
+    }, i * TIME_SYNC_BURST_SPACING_MS);
+  }
+}
+
+/**
+ * Record a clock sync sample and update the offset estimate
+ * Uses the median offset of the lowest-RTT half of recent samples.
+ */
+function handleTimePong(message: { clientSendMs: number; serverReceiveMs: number; serverSendMs: number }): void {
+  const clientReceiveMs = Date.now();
+  const rttMs = clientReceiveMs - message.clientSendMs - (message.serverSendMs - message.serverReceiveMs);
+  const offsetMs =
+    (message.serverReceiveMs - message.clientSendMs + (message.serverSendMs - clientReceiveMs)) / 2;
+
+  timeSyncSamples.push({ offsetMs, rttMs });
+  if (timeSyncSamples.length > TIME_SYNC_MAX_SAMPLES) {
+    timeSyncSamples.shift();
+  }
+
+  const best = [...timeSyncSamples]
+    .sort((a, b) => a.rttMs - b.rttMs)
+    .slice(0, Math.ceil(timeSyncSamples.length / 2))
+    .map((sample) => sample.offsetMs)
+    .sort((a, b) => a - b);
+  clockOffsetMs = best[Math.floor(best.length / 2)];
+}
+
+/**
+ * Current time on the relay's clock (falls back to local time before the first sync)
+ */
+function serverNow(): number {
+  return Date.now() + (clockOffsetMs ?? 0);
+}
+
+/**
+ * Estimate where the host is right now in the given snapshot's track
+ */
+function estimateHostPositionMs(hostState: ApplePlaybackState): number {
+  if (hostState.playbackState !== "playing") {
+    return hostState.positionSec * 1000;
+  }
+
+  // Prefer the relay's server-time stamp; the host's own clock may be skewed from ours
+  const dt =
+    hostState.serverTimestampMs !== undefined
+      ? serverNow() - hostState.serverTimestampMs
+      : Date.now() - hostState.hostTimestampMs;
+  return hostState.positionSec * 1000 + dt;
+}
+
 /**
  * Handle incoming Apple Music state from content script (Host role)
  */
@@ -179,22 +538,52 @@ function handleAppleState(payload: ApplePlaybackState): void {
   const stateUpdate: WsMessage = {
     type: "STATE_UPDATE",
     sessionId,
-    payload,
+    payload: {
+      ...payload,
+      // Let the relay stamp the snapshot in its own time once we know our offset
+      serverTimestampMs: clockOffsetMs !== null ? payload.hostTimestampMs + clockOffsetMs : undefined,
+    },
   };
 
   ws.send(JSON.stringify(stateUpdate));
 }
 
+/**
+ * Handle the upcoming Apple Music queue from content script (Host role)
+ */
+function handleAppleQueue(payload: UpcomingTrack[]): void {
+  appleQueue = payload;
+  sendQueueUpdate();
+}
+
+/**
+ * Send the host's upcoming tracks to the relay, which pre-resolves them for listeners
+ */
+function sendQueueUpdate(): void {
+  if (role !== "host" || !sessionId || !ws || ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+
+  const queueUpdate: WsMessage = { type: "QUEUE_UPDATE", sessionId, upcoming: appleQueue };
+  ws.send(JSON.stringify(queueUpdate));
+}
+
 /**
  * Handle host state update (Listener role)
  */
-function handleHostStateUpdate(hostState: ApplePlaybackState): void {
+function handleHostStateUpdate(hostState: ApplePlaybackState, match?: TrackMatchInfo): void {
   if (role !== "listener") {
     return;
   }
 
   const now = Date.now();
 
+  const previousHostState = lastHostState;
+  lastHostState = hostState;
+  if (match) {
+    lastMatch = match;
+  }
+
   // Throttle sync calls
   if (now - lastSyncCallTime < SYNC_THROTTLE_MS) {
     return;
@@ -206,51 +595,328 @@ function handleHostStateUpdate(hostState: ApplePlaybackState): void {
     return;
   }
 
-  // Compute estimated host position accounting for drift
-  const dt = now - hostState.hostTimestampMs; // ms since host snapshot
-  const estimatedHostPosMs =
-    hostState.playbackState === "playing"
-      ? hostState.positionSec * 1000 + dt
-      : hostState.positionSec * 1000;
+  // Compute estimated host position accounting for time since the snapshot
+  const estimatedHostPosMs = estimateHostPositionMs(hostState);
 
   // Track changed
   if (hostState.trackId !== lastAppliedTrackId) {
+    if (Date.now() < spotifyRetryAt) {
+      return; // retried by a later update once Spotify is available again
+    }
+
+    const queued = queuedNext;
+    queuedNext = null;
+    if (queued && queued.appleTrackId === hostState.trackId && queued.spotifyUri) {
+      // Spotify moves on to the queued track by itself; the next player check corrects any drift
+      console.log("[Background] Track changed to queued track:", hostState.title);
+      lastAppliedTrackId = hostState.trackId;
+      lastAppliedUri = queued.spotifyUri;
+      lastPlayerCheckTime = Date.now();
+      return;
+    }
+    // The host skipped past the queued track, which stays in Spotify's queue (the API can't remove it).
+    // Queuing another one would put it behind the stale one, so this track plays without queuing ahead.
+    queueHeldTrackId = queued ? hostState.trackId : null;
+
     console.log("[Background] Track changed:", hostState.title, "by", hostState.artist);
-    playTrack(hostState, estimatedHostPosMs);
+    lastAppliedUri = null;
+    playTrack(hostState, estimatedHostPosMs, match);
     lastAppliedTrackId = hostState.trackId;
-    lastAppliedPositionMs = estimatedHostPosMs;
-    lastAppliedHostTimestampMs = hostState.hostTimestampMs;
     return;
   }
 
-  // Same track - handle play/pause and seek
+  // Same track - pause right away; resume and seek are corrected against the real player
   if (hostState.playbackState === "paused") {
-    // Host is paused - pause if we're playing
     pausePlayback();
-  } else if (hostState.playbackState === "playing") {
-    // Host is playing - check if we need to seek
-    const drift = Math.abs(lastAppliedPositionMs - estimatedHostPosMs);
-    const timeSinceLastSeek = now - lastSeekTime;
-
-    if (drift > DRIFT_THRESHOLD_MS && timeSinceLastSeek >= SEEK_THROTTLE_MS) {
-      console.log(`[Background] Seeking to ${estimatedHostPosMs}ms (drift: ${drift}ms)`);
-      seekToPosition(estimatedHostPosMs);
-      lastAppliedPositionMs = estimatedHostPosMs;
-      lastAppliedHostTimestampMs = hostState.hostTimestampMs;
-      lastSeekTime = now;
+  } else if (previousHostState && isHostDiscontinuity(previousHostState, hostState)) {
+    // Host resumed or seeked - check Spotify now instead of waiting for the next poll
+    checkPlayerDrift();
+  }
+
+  maybeQueueNextTrack(hostState);
+}
+
+/**
+ * Add the host's next track to the Spotify queue once the current one is about to end (Listener role)
+ * Spotify then starts it on its own instead of waiting for the host's track change to reach us.
+ */
+function maybeQueueNextTrack(hostState: ApplePlaybackState): void {
+  const next = upcomingTracks[0];
+  if (
+    !next ||
+    queuedNext ||
+    hostState.trackId === queueHeldTrackId ||
+    hostLost ||
+    !lastAppliedUri ||
+    next.trackId === hostState.trackId || // repeating the same track - there's no track change to wait for
+    hostState.playbackState !== "playing" ||
+    hostState.durationSec === null ||
+    hostState.durationSec * 1000 - estimateHostPositionMs(hostState) > QUEUE_LEAD_MS
+  ) {
+    return;
+  }
+
+  if (next.match && (next.match.status === "low_confidence" || next.match.status === "not_found")) {
+    return;
+  }
+
+  queuedNext = { appleTrackId: next.trackId, spotifyUri: null };
+  queueTrack(next);
+}
+
+/**
+ * Update presence after the relay moved the host role, and take over or give up host duties
+ */
+function handleHostChanged(
+  host: MemberInfo,
+  previousHost: MemberInfo | null,
+  reason: HostChangeReason,
+  newListenerCount: number
+): void {
+  console.log(`[Background] Host is now ${host.displayName || host.clientId} (${reason})`);
+  members = members.map((member) => {
+    if (member.clientId === host.clientId) return host;
+    if (member.clientId === previousHost?.clientId) return { ...member, role: "listener" };
+    return member;
+  });
+  listenerCount = newListenerCount;
+  hostOnline = true;
+  pendingHandoff = null;
+  upcomingTracks = []; // the new host sends its own queue
+
+  applyRole(host.clientId === clientId ? "host" : "listener");
+  handleHostBack();
+}
+
+/**
+ * Switch between host and listener duties
+ * A new host stops following Spotify and its Apple Music playback drives the session;
+ * a former host starts syncing its Spotify to the new host.
+ */
+function applyRole(newRole: "host" | "listener"): void {
+  if (newRole === role) {
+    return;
+  }
+
+  console.log(`[Background] Role changed: ${role} -> ${newRole}`);
+  role = newRole;
+  lastAppliedTrackId = null;
+  lastAppliedUri = null;
+  lastHostState = null;
+  lastMatch = null;
+  upcomingTracks = [];
+  queuedNext = null;
+  queueHeldTrackId = null;
+
+  if (newRole === "host") {
+    stopPlayerPolling();
+    clearHostLostPauseTimeout();
+    hostLost = false;
+    pausePlayback();
+    sendQueueUpdate();
+  } else {
+    startPlayerPolling();
+  }
+}
+
+/**
+ * Send a host control message to the relay (handoff, reclaim, DJ rotation)
+ */
+function sendHostControl(message: WsMessage): boolean {
+  if (!ws || ws.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+  ws.send(JSON.stringify(message));
+  return true;
+}
+
+/**
+ * Apply the configured policy after the host has been gone past the grace period (Listener role)
+ */
+function handleHostLost(): void {
+  hostLost = true;
+  console.log(`[Background] Host lost, applying policy: ${hostLostPolicy}`);
+
+  if (hostLostPolicy === "pause") {
+    pausePlayback();
+  } else if (hostLostPolicy === "finish_track") {
+    // Let the current song end, then pause before Spotify autoplays something else
+    const remainingMs =
+      lastHostState && lastHostState.durationSec !== null
+        ? lastHostState.durationSec * 1000 - estimateHostPositionMs(lastHostState)
+        : 0;
+    clearHostLostPauseTimeout();
+    hostLostPauseTimeoutId = setTimeout(() => {
+      hostLostPauseTimeoutId = null;
+      if (hostLost) {
+        pausePlayback();
+      }
+    }, Math.max(0, remainingMs - HOST_LOST_PAUSE_LEAD_MS));
+  }
+}
+
+/**
+ * Host reconnected - cancel any pending policy action and let the next update resume sync
+ */
+function handleHostBack(): void {
+  if (!hostLost) {
+    return;
+  }
+
+  hostLost = false;
+  clearHostLostPauseTimeout();
+  // Check the real player as soon as the host's next state arrives
+  lastPlayerCheckTime = 0;
+  console.log("[Background] Host is back, resuming sync");
+}
+
+function clearHostLostPauseTimeout(): void {
+  if (hostLostPauseTimeoutId !== null) {
+    clearTimeout(hostLostPauseTimeoutId);
+    hostLostPauseTimeoutId = null;
+  }
+}
+
+/**
+ * Whether the host resumed or jumped position between two snapshots of the same track
+ */
+function isHostDiscontinuity(previous: ApplePlaybackState, current: ApplePlaybackState): boolean {
+  if (previous.playbackState !== current.playbackState) {
+    return true;
+  }
+  return Math.abs(estimateHostPositionMs(previous) - estimateHostPositionMs(current)) > DRIFT_THRESHOLD_MS;
+}
+
+/**
+ * Start polling the listener's real Spotify player for drift
+ */
+function startPlayerPolling(): void {
+  stopPlayerPolling();
+  playerPollIntervalId = setInterval(checkPlayerDrift, PLAYER_POLL_INTERVAL_MS);
+}
+
+function stopPlayerPolling(): void {
+  if (playerPollIntervalId !== null) {
+    clearInterval(playerPollIntervalId);
+    playerPollIntervalId = null;
+  }
+}
+
+/**
+ * Compare Spotify's actual playback with the host and correct only real divergence
+ * Also re-syncs when the user changed the song on Spotify themselves.
+ */
+async function checkPlayerDrift(): Promise<void> {
+  const now = Date.now();
+  if (
+    role !== "listener" ||
+    !listenerId ||
+    hostLost ||
+    !lastHostState ||
+    !lastAppliedUri ||
+    lastHostState.trackId !== lastAppliedTrackId ||
+    playerCheckInFlight ||
+    now - lastPlayerCheckTime < PLAYER_CHECK_MIN_GAP_MS
+  ) {
+    return;
+  }
+  lastPlayerCheckTime = now;
+  playerCheckInFlight = true;
+
+  try {
+    const requestStart = Date.now();
+    const response = await fetch(`${BACKEND_URL}/api/spotify/player?listenerId=${encodeURIComponent(listenerId)}`);
+    if (!response.ok) {
+      const error = await response.json();
+      console.error("[Background] Failed to get Spotify player state:", error);
+      return;
+    }
+    const data = await response.json();
+    // Assume Spotify sampled the position halfway through the round trip
+    const sampledAt = (requestStart + Date.now()) / 2;
+
+    const hostState = lastHostState;
+    const trackUri = lastAppliedUri;
+    if (!hostState || !trackUri) {
+      return;
+    }
+    const hostPosMs = estimateHostPositionMs(hostState);
+    const player = data.playback;
+
+    if (player && queuedNext?.spotifyUri && player.trackUri === queuedNext.spotifyUri) {
+      // Spotify's version ended first and it moved on to the queued track - the host will catch up
+      return;
+    }
+
+    if (!player || player.trackUri !== trackUri) {
+      // Nothing playing, or the user picked another song on Spotify
+      if (hostState.playbackState === "playing") {
+        console.log("[Background] Spotify is not playing the host's track, re-syncing");
+        resumeTrack(trackUri, hostPosMs);
+      }
+      return;
+    }
+
+    if (hostState.playbackState !== "playing") {
+      if (player.isPlaying) {
+        pausePlayback();
+      }
+      return;
+    }
+
+    if (!player.isPlaying) {
+      console.log("[Background] Host is playing but Spotify is paused, resuming");
+      resumeTrack(trackUri, hostPosMs);
+      return;
     }
+
+    const actualPosMs = player.progressMs + (Date.now() - sampledAt);
+    const drift = Math.abs(actualPosMs - hostPosMs);
+    if (drift > DRIFT_THRESHOLD_MS && Date.now() - lastSeekTime >= SEEK_THROTTLE_MS) {
+      console.log(`[Background] Seeking to ${Math.round(hostPosMs)}ms (actual drift: ${Math.round(drift)}ms)`);
+      seekToPosition(hostPosMs);
+      lastSeekTime = Date.now();
+    }
+  } catch (error) {
+    console.error("[Background] Error checking Spotify player:", error);
+  } finally {
+    playerCheckInFlight = false;
   }
 }
 
+/**
+ * Handle a corrected match for a track (Listener role)
+ * Replays the current track if the correction is for what we're playing.
+ */
+function handleMatchUpdated(appleTrackId: string, match: TrackMatchInfo): void {
+  if (role !== "listener" || !lastHostState || lastHostState.trackId !== appleTrackId) {
+    return;
+  }
+
+  lastMatch = match;
+  const estimatedHostPosMs = estimateHostPositionMs(lastHostState);
+
+  console.log("[Background] Match corrected, replaying:", match.spotifyTitle);
+  lastAppliedUri = null;
+  playTrack(lastHostState, estimatedHostPosMs, match);
+}
+
 /**
  * Call backend API to play a track
+ * Uses the Spotify URI resolved by the relay when available, otherwise lets the backend search.
  */
-async function playTrack(state: ApplePlaybackState, positionMs: number): Promise<void> {
+async function playTrack(state: ApplePlaybackState, positionMs: number, match?: TrackMatchInfo): Promise<void> {
   if (!listenerId || !state.title || !state.artist) {
     console.error("[Background] Missing required info for playTrack");
     return;
   }
 
+  if (match && (match.status === "low_confidence" || match.status === "not_found")) {
+    // Relay already decided there is no safe match - don't play a likely wrong song
+    console.warn(`[Background] Relay found no confident match for "${state.title}" (${match.status})`);
+    return;
+  }
+
   try {
     const response = await fetch(`${BACKEND_URL}/api/spotify/play-track`, {
       method: "POST",
@@ -259,24 +925,120 @@ async function playTrack(state: ApplePlaybackState, positionMs: number): Promise
       },
       body: JSON.stringify({
         listenerId,
+        appleTrackId: state.trackId,
         trackTitle: state.title,
         artistName: state.artist,
+        albumName: state.album,
+        durationSec: state.durationSec,
+        isrc: state.isrc,
+        spotifyTrackId: match?.status === "matched" ? match.spotifyUri : undefined,
         positionMs: Math.max(0, positionMs),
       }),
     });
 
     if (!response.ok) {
       const error = await response.json();
+      if (error.lowConfidence) {
+        // Server refused to play a likely wrong song
+        console.warn(`[Background] No confident match for "${state.title}":`, error.message);
+        return;
+      }
+      if (response.status === 503 && lastAppliedTrackId === state.trackId) {
+        // Rate limited or circuit open - start this track on a host update after the retry time
+        console.warn(`[Background] Spotify unavailable for "${state.title}":`, error.message);
+        spotifyRetryAt = Date.now() + (error.retryAfterMs ?? 0);
+        lastAppliedTrackId = null;
+        return;
+      }
       console.error("[Background] Failed to play track:", error);
       return;
     }
 
+    const data = await response.json();
+    // Ignore if the host moved on to another track while this request was in flight
+    if (lastAppliedTrackId === state.trackId) {
+      lastAppliedUri = data.trackUri;
+    }
     console.log("[Background] Track playing:", state.title);
   } catch (error) {
     console.error("[Background] Error calling play-track API:", error);
   }
 }
 
+/**
+ * Call backend API to add an upcoming track to the Spotify queue
+ * Uses the relay's pre-resolved match when available, otherwise the backend resolves it like play-track.
+ */
+async function queueTrack(track: UpcomingTrack): Promise<void> {
+  if (!listenerId) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/spotify/queue`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        listenerId,
+        appleTrackId: track.trackId,
+        trackTitle: track.title,
+        artistName: track.artist,
+        albumName: track.album,
+        durationSec: track.durationSec,
+        isrc: track.isrc,
+        spotifyTrackId: track.match?.status === "matched" ? track.match.spotifyUri : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      // The track change then falls back to play-track
+      const error = await response.json();
+      console.warn(`[Background] Failed to queue "${track.title}":`, error.message || error.error);
+      return;
+    }
+
+    const data = await response.json();
+    if (queuedNext?.appleTrackId === track.trackId) {
+      queuedNext.spotifyUri = data.trackUri;
+    }
+    console.log("[Background] Queued next track:", track.title);
+  } catch (error) {
+    console.error("[Background] Error calling queue API:", error);
+  }
+}
+
+/**
+ * Call backend API to (re)start a known Spotify track at a position
+ */
+async function resumeTrack(trackUri: string, positionMs: number): Promise<void> {
+  if (!listenerId) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/spotify/play-track`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        listenerId,
+        spotifyTrackId: trackUri,
+        positionMs: Math.max(0, positionMs),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error("[Background] Failed to resume track:", error);
+    }
+  } catch (error) {
+    console.error("[Background] Error calling play-track API:", error);
+  }
+}
+
 /**
  * Call backend API to pause playback
  */
@@ -349,8 +1111,11 @@ function disconnectWebSocket(): void {
     console.log("[Background] Cancelled pending reconnect");
   }
   
+  // Leaving on purpose: 1000 tells the relay not to hold our seat for a resume
+  clearResumeToken();
+  resetSessionState();
   if (ws) {
-    ws.close();
+    ws.close(1000, "leave");
     ws = null;
   }
   console.log("[Background] WebSocket connection stopped");
@@ -378,6 +1143,8 @@ chrome.runtime.onMessage.addListener(
   (message: any, sender, sendResponse) => {
     if (message.source === "APPLE_SYNC" && message.type === "APPLE_STATE") {
       handleAppleState(message.payload);
+    } else if (message.source === "APPLE_SYNC" && message.type === "APPLE_QUEUE") {
+      handleAppleQueue(message.payload);
     } else if (message.type === "CONNECTION_CONTROL") {
       if (message.action === "start") {
         startConnection().then(() => {
@@ -393,16 +1160,67 @@ chrome.runtime.onMessage.addListener(
         const isConnected = ws !== null && ws.readyState === WebSocket.OPEN;
         sendResponse({ success: true, connected: isConnected });
       }
+    } else if (message.type === "GET_PRESENCE") {
+      const isConnected = ws !== null && ws.readyState === WebSocket.OPEN;
+      sendResponse({
+        success: true,
+        connected: isConnected,
+        hostOnline,
+        members,
+        listenerCount,
+        clientId,
+        role,
+        isOwner: configuredRole === "host" && !!ownerSecret,
+        djRotationTracks,
+        pendingHandoff: pendingHandoff && pendingHandoff.expiresAt > Date.now() ? pendingHandoff : null,
+      });
+    } else if (message.type === "HANDOFF_REQUEST") {
+      sendResponse({ success: sendHostControl({ type: "HANDOFF_REQUEST", targetClientId: message.targetClientId }) });
+    } else if (message.type === "HANDOFF_RESPONSE") {
+      if (!pendingHandoff) {
+        sendResponse({ success: false, error: "No pending handoff" });
+      } else {
+        const sent = sendHostControl({
+          type: "HANDOFF_RESPONSE",
+          requestId: pendingHandoff.requestId,
+          accept: !!message.accept,
+        });
+        pendingHandoff = null;
+        sendResponse({ success: sent });
+      }
+    } else if (message.type === "RECLAIM_HOST") {
+      sendResponse({ success: sendHostControl({ type: "RECLAIM_HOST" }) });
+    } else if (message.type === "SET_DJ_ROTATION") {
+      sendResponse({ success: sendHostControl({ type: "SET_DJ_ROTATION", tracksPerTurn: message.tracksPerTurn }) });
     }
     return true; // Keep channel open for async response
   }
 );
 
+/**
+ * Pick up host-lost policy changes from the popup without a reload
+ */
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && changes.hostLostPolicy) {
+    hostLostPolicy = changes.hostLostPolicy.newValue || "pause";
+  }
+});
+
 /**
  * Initialize extension
  */
 async function init() {
   await loadConfig();
+
+  // A service worker restarted mid-session resumes where it left off
+  const saved = await chrome.storage.session.get(["resumeToken"]);
+  if (saved.resumeToken) {
+    resumeToken = saved.resumeToken;
+    console.log("[Background] Service worker restarted during a session, resuming");
+    await startConnection();
+    return;
+  }
+
   // Don't auto-connect on startup - user must click "Start Connection"
   console.log("[Background] Extension initialized. Use popup to start connection.");
 }
@@ -4,25 +4,41 @@ let BACKEND_URL = "http://localhost:3000";
 
 interface Config {
   role: "host" | "listener" | null;
-  sessionId: string | null;
+  sessionId: string | null; // host: session created by this host
+  hostJoinCode: string | null; // host: join code to share
+  joinCode: string | null; // listener: join code of the session to follow
   listenerId: string | null;
+  displayName: string | null;
 }
 
 let currentConfig: Config = {
   role: null,
   sessionId: null,
+  hostJoinCode: null,
+  joinCode: null,
   listenerId: null,
+  displayName: null,
 };
 
 // Load current configuration
 async function loadConfig() {
   try {
-    const result = await chrome.storage.local.get(["role", "sessionId", "backendUrl"]);
+    const result = await chrome.storage.local.get([
+      "role",
+      "sessionId",
+      "hostJoinCode",
+      "joinCode",
+      "backendUrl",
+      "displayName",
+    ]);
     const syncResult = await chrome.storage.sync.get(["listenerId"]);
 
     currentConfig.role = result.role || null;
     currentConfig.sessionId = result.sessionId || null;
+    currentConfig.hostJoinCode = result.hostJoinCode || null;
+    currentConfig.joinCode = result.joinCode || null;
     currentConfig.listenerId = syncResult.listenerId || null;
+    currentConfig.displayName = result.displayName || null;
     
     // Load custom backend URL if set
     if (result.backendUrl) {
@@ -48,26 +64,56 @@ async function updateUI() {
     hostBtn.classList.add("active");
     listenerBtn.classList.remove("active");
     roleInfo.textContent = "Host: Detects Apple Music playback";
+    document.getElementById("host-session-section")!.style.display = "block";
+    document.getElementById("listener-session-section")!.style.display = "none";
     document.getElementById("listener-section")!.style.display = "none";
+    document.getElementById("device-section")!.style.display = "none";
+    document.getElementById("playlist-section")!.style.display = "none";
+    document.getElementById("host-lost-section")!.style.display = "none";
+    await updateNowPlaying();
   } else if (currentConfig.role === "listener") {
     listenerBtn.classList.add("active");
     hostBtn.classList.remove("active");
     roleInfo.textContent = "Listener: Syncs to Spotify";
+    document.getElementById("host-session-section")!.style.display = "none";
+    document.getElementById("listener-session-section")!.style.display = "block";
     document.getElementById("listener-section")!.style.display = "block";
+    document.getElementById("playlist-section")!.style.display = "block";
+    document.getElementById("host-lost-section")!.style.display = "block";
     await updateListenerId();
+    await updateNowPlaying();
+    await updateDevices();
   } else {
     hostBtn.classList.remove("active");
     listenerBtn.classList.remove("active");
     roleInfo.textContent = "Select a role to start";
+    document.getElementById("host-session-section")!.style.display = "none";
+    document.getElementById("listener-session-section")!.style.display = "none";
     document.getElementById("listener-section")!.style.display = "none";
+    document.getElementById("device-section")!.style.display = "none";
+    document.getElementById("playlist-section")!.style.display = "none";
+    document.getElementById("host-lost-section")!.style.display = "none";
   }
 
-  // Update session ID input
-  const sessionIdInput = document.getElementById("session-id") as HTMLInputElement;
-  if (currentConfig.sessionId) {
-    sessionIdInput.value = currentConfig.sessionId;
+  // Update session fields
+  const joinCodeDisplay = document.getElementById("join-code-display") as HTMLDivElement;
+  joinCodeDisplay.textContent = currentConfig.hostJoinCode || "No session yet";
+  const joinCodeInput = document.getElementById("join-code") as HTMLInputElement;
+  if (currentConfig.joinCode) {
+    joinCodeInput.value = currentConfig.joinCode;
   }
-  
+
+  // Update display name input
+  const displayNameInput = document.getElementById("display-name") as HTMLInputElement;
+  if (currentConfig.displayName) {
+    displayNameInput.value = currentConfig.displayName;
+  }
+
+  // Update host-lost policy select
+  const policySelect = document.getElementById("host-lost-policy") as HTMLSelectElement;
+  const policyResult = await chrome.storage.local.get(["hostLostPolicy"]);
+  policySelect.value = policyResult.hostLostPolicy || "pause";
+
   // Update backend URL input
   const backendUrlInput = document.getElementById("backend-url") as HTMLInputElement;
   const result = await chrome.storage.local.get(["backendUrl"]);
@@ -101,28 +147,75 @@ function generateUUID(): string {
   });
 }
 
+// Create a new session on the backend (Host role)
+// The owner secret stays in local storage and proves this host owns the session.
+async function createSession() {
+  const sessionNameInput = document.getElementById("session-name") as HTMLInputElement;
+  const backendUrlInput = document.getElementById("backend-url") as HTMLInputElement;
+  const backendUrl = backendUrlInput.value.trim() || BACKEND_URL;
+
+  try {
+    const response = await fetch(`${backendUrl}/api/sessions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ name: sessionNameInput.value.trim() || undefined }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      showStatus(data.message || data.error || "Failed to create session", "error");
+      return;
+    }
+
+    await chrome.storage.local.set({
+      sessionId: data.sessionId,
+      ownerSecret: data.ownerSecret,
+      hostJoinCode: data.joinCode,
+    });
+    currentConfig.sessionId = data.sessionId;
+    currentConfig.hostJoinCode = data.joinCode;
+    (document.getElementById("join-code-display") as HTMLDivElement).textContent = data.joinCode;
+    showStatus(`Session created! Join code: ${data.joinCode}`, "success");
+  } catch (error) {
+    console.error("Failed to create session:", error);
+    showStatus("Failed to create session", "error");
+  }
+}
+
 // Save configuration
 async function saveConfig() {
-  const sessionIdInput = document.getElementById("session-id") as HTMLInputElement;
+  const joinCodeInput = document.getElementById("join-code") as HTMLInputElement;
   const backendUrlInput = document.getElementById("backend-url") as HTMLInputElement;
-  const sessionId = sessionIdInput.value.trim();
+  const displayNameInput = document.getElementById("display-name") as HTMLInputElement;
+  const joinCode = joinCodeInput.value.trim().toUpperCase();
   const backendUrl = backendUrlInput.value.trim();
+  const displayName = displayNameInput.value.trim();
 
   if (!currentConfig.role) {
     showStatus("Please select a role", "error");
     return;
   }
 
-  if (!sessionId) {
-    showStatus("Please enter a session ID", "error");
+  if (currentConfig.role === "host" && !currentConfig.sessionId) {
+    showStatus("Please create a session first", "error");
+    return;
+  }
+
+  if (currentConfig.role === "listener" && !joinCode) {
+    showStatus("Please enter a join code", "error");
     return;
   }
 
   try {
     const configToSave: any = {
       role: currentConfig.role,
-      sessionId: sessionId,
+      displayName: displayName || null,
     };
+    if (currentConfig.role === "listener") {
+      configToSave.joinCode = joinCode;
+    }
     
     // Save backend URL if provided
     if (backendUrl) {
@@ -148,7 +241,10 @@ async function saveConfig() {
       }
     }
 
-    currentConfig.sessionId = sessionId;
+    if (currentConfig.role === "listener") {
+      currentConfig.joinCode = joinCode;
+    }
+    currentConfig.displayName = displayName || null;
     showStatus("Configuration saved! Please reload the extension (chrome://extensions → click reload).", "success");
   } catch (error) {
     console.error("Failed to save config:", error);
@@ -181,6 +277,246 @@ function openSpotifyAuth() {
   chrome.tabs.create({ url: authUrl });
 }
 
+// Fetch the session's current track and its Spotify match from the relay
+async function fetchNowPlaying(sessionId: string): Promise<{ state: any; match: any } | null> {
+  const response = await fetch(`${BACKEND_URL}/api/sessions/${encodeURIComponent(sessionId)}/now-playing`);
+  if (!response.ok) {
+    return null;
+  }
+  return response.json();
+}
+
+// Show the host's current track and its Spotify match
+// Only the host can fix it: overrides apply to every session, so they take the owner secret.
+async function updateNowPlaying() {
+  const matchSection = document.getElementById("match-section") as HTMLDivElement;
+  const nowPlaying = document.getElementById("now-playing") as HTMLDivElement;
+
+  if (currentConfig.role !== "host" || !currentConfig.sessionId) {
+    matchSection.style.display = "none";
+    return;
+  }
+
+  try {
+    const response = await fetchNowPlaying(currentConfig.sessionId);
+    const state = response?.state;
+    const match = response?.match;
+
+    matchSection.style.display = "block";
+    if (!state || !state.trackId) {
+      nowPlaying.textContent = "Nothing playing";
+      return;
+    }
+
+    const spotifyInfo = match?.spotifyTitle
+      ? ` → ${match.spotifyTitle} by ${match.spotifyArtists?.join(", ")}`
+      : "";
+    nowPlaying.textContent = `${state.title} by ${state.artist}${spotifyInfo}`;
+  } catch (error) {
+    console.error("Failed to get now playing:", error);
+  }
+}
+
+// Override the Spotify match for the host's current track
+async function fixMatch() {
+  const linkInput = document.getElementById("spotify-link") as HTMLInputElement;
+  const spotifyUri = linkInput.value.trim();
+
+  if (!spotifyUri) {
+    showStatus("Paste a Spotify track link first", "error");
+    return;
+  }
+
+  try {
+    const { sessionId, ownerSecret } = await chrome.storage.local.get(["sessionId", "ownerSecret"]);
+    if (!sessionId || !ownerSecret) {
+      showStatus("Create a session first", "error");
+      return;
+    }
+
+    const response = await fetchNowPlaying(sessionId);
+    const trackId = response?.state?.trackId;
+    if (!trackId) {
+      showStatus("Nothing is playing right now", "error");
+      return;
+    }
+
+    const result = await fetch(`${BACKEND_URL}/api/matches/${encodeURIComponent(trackId)}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ spotifyUri, sessionId, ownerSecret }),
+    });
+
+    const data = await result.json();
+    if (!result.ok) {
+      showStatus(data.message || data.error || "Failed to fix match", "error");
+      return;
+    }
+
+    linkInput.value = "";
+    showStatus(`Match fixed: ${data.spotifyTitle}`, "success");
+  } catch (error) {
+    console.error("Failed to fix match:", error);
+    showStatus("Failed to fix match", "error");
+  }
+}
+
+// List the listener's Spotify devices, marking the active and preferred ones
+async function updateDevices() {
+  const deviceSection = document.getElementById("device-section") as HTMLDivElement;
+  const deviceSelect = document.getElementById("spotify-device") as HTMLSelectElement;
+  const deviceInfo = document.getElementById("device-info") as HTMLDivElement;
+
+  if (currentConfig.role !== "listener" || !currentConfig.listenerId) {
+    deviceSection.style.display = "none";
+    return;
+  }
+  deviceSection.style.display = "block";
+
+  try {
+    const result = await fetch(
+      `${BACKEND_URL}/api/spotify/devices?listenerId=${encodeURIComponent(currentConfig.listenerId)}`
+    );
+    const data = await result.json();
+    if (!result.ok) {
+      deviceInfo.textContent = result.status === 401 ? "Authenticate Spotify to pick a device" : data.message || data.error;
+      return;
+    }
+
+    const preferredId: string | null = data.preferredDevice?.deviceId || null;
+    deviceSelect.innerHTML = "";
+    deviceSelect.appendChild(new Option("Automatic", ""));
+    for (const device of data.devices) {
+      const markers = [device.isActive ? "active" : null, device.isRestricted ? "restricted" : null].filter(Boolean);
+      const label = markers.length ? `${device.name} (${markers.join(", ")})` : device.name;
+      const option = new Option(label, device.id);
+      option.disabled = device.isRestricted;
+      deviceSelect.appendChild(option);
+    }
+
+    const preferredListed = data.devices.some((device: { id: string }) => device.id === preferredId);
+    if (preferredId && !preferredListed) {
+      // Offline devices don't appear in the list, but stay preferred until cleared
+      deviceSelect.appendChild(new Option(`${data.preferredDevice.deviceName} (offline)`, preferredId));
+    }
+    deviceSelect.value = preferredId || "";
+    deviceInfo.textContent = preferredId
+      ? `Playback starts on ${data.preferredDevice.deviceName} when Spotify isn't playing anywhere`
+      : "Used when Spotify isn't playing anywhere";
+  } catch (error) {
+    console.error("Failed to load devices:", error);
+    deviceInfo.textContent = "Failed to load devices";
+  }
+}
+
+// Save the selected device as preferred and move playback there
+async function useDevice() {
+  const deviceSelect = document.getElementById("spotify-device") as HTMLSelectElement;
+  const deviceId = deviceSelect.value;
+
+  if (!currentConfig.listenerId) {
+    showStatus("Listener ID not found. Please save configuration first.", "error");
+    return;
+  }
+
+  try {
+    const result = deviceId
+      ? await fetch(`${BACKEND_URL}/api/spotify/devices/preferred`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ listenerId: currentConfig.listenerId, deviceId, transfer: true }),
+        })
+      : await fetch(
+          `${BACKEND_URL}/api/spotify/devices/preferred/${encodeURIComponent(currentConfig.listenerId)}`,
+          { method: "DELETE" }
+        );
+
+    const data = await result.json();
+    // Clearing a preference that was never set is fine
+    if (!result.ok && !(result.status === 404 && !deviceId)) {
+      showStatus(data.message || data.error || "Failed to switch device", "error");
+      return;
+    }
+
+    showStatus(deviceId ? `Playing on ${data.preferredDevice.deviceName}` : "Device preference cleared", "success");
+    await updateDevices();
+  } catch (error) {
+    console.error("Failed to switch device:", error);
+    showStatus("Failed to switch device", "error");
+  }
+}
+
+// Save the session's tracklist (or its recent part) as a playlist in the listener's Spotify account
+async function createPlaylist() {
+  const rangeSelect = document.getElementById("playlist-range") as HTMLSelectElement;
+  const result = document.getElementById("playlist-result") as HTMLDivElement;
+  const button = document.getElementById("create-playlist") as HTMLButtonElement;
+
+  if (!currentConfig.listenerId || !currentConfig.joinCode) {
+    showStatus("Join a session and save configuration first", "error");
+    return;
+  }
+
+  button.disabled = true;
+  result.textContent = "Creating playlist...";
+  try {
+    const session = await fetch(`${BACKEND_URL}/api/sessions/join/${encodeURIComponent(currentConfig.joinCode)}`);
+    const sessionData = await session.json();
+    if (!session.ok) {
+      result.textContent = "";
+      showStatus(sessionData.error || "Session not found", "error");
+      return;
+    }
+
+    const rangeMs = Number(rangeSelect.value);
+    const response = await fetch(`${BACKEND_URL}/api/sessions/${encodeURIComponent(sessionData.sessionId)}/playlist`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        listenerId: currentConfig.listenerId,
+        from: rangeMs ? Date.now() - rangeMs : undefined,
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      result.textContent = data.unmatched?.length ? `${data.unmatched.length} track(s) had no Spotify match` : "";
+      showStatus(data.message || data.error || "Failed to create playlist", "error");
+      return;
+    }
+
+    // Show the link and which tracks couldn't be added
+    result.textContent = "";
+    const link = document.createElement("a");
+    link.href = data.playlist.url;
+    link.textContent = `Open "${data.name}" (${data.added} tracks)`;
+    link.addEventListener("click", (event) => {
+      event.preventDefault();
+      chrome.tabs.create({ url: data.playlist.url });
+    });
+    result.appendChild(link);
+    if (data.unmatched.length > 0) {
+      const missing = data.unmatched.map((track: { title: string | null; artist: string | null }) =>
+        track.artist ? `${track.title} by ${track.artist}` : track.title
+      );
+      result.appendChild(document.createTextNode(` · Not on Spotify: ${missing.join(", ")}`));
+    }
+    showStatus("Playlist created", "success");
+  } catch (error) {
+    console.error("Failed to create playlist:", error);
+    result.textContent = "";
+    showStatus("Failed to create playlist", "error");
+  } finally {
+    button.disabled = false;
+  }
+}
+
 // Start connection
 async function startConnection() {
   try {
@@ -242,10 +578,122 @@ async function updateConnectionStatus() {
   }
 }
 
+// Update host status and listener roster
+async function updatePresence() {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: "GET_PRESENCE" });
+
+    const presenceSection = document.getElementById("presence-section") as HTMLDivElement;
+    if (!response || !response.connected) {
+      presenceSection.style.display = "none";
+      return;
+    }
+    presenceSection.style.display = "block";
+
+    const hostStatus = document.getElementById("host-status") as HTMLDivElement;
+    const listenerLabel = response.listenerCount === 1 ? "listener" : "listeners";
+    const host = response.members.find((member: any) => member.role === "host");
+    const hostLabel = host
+      ? `Host: ${host.clientId === response.clientId ? "you" : host.displayName || "Anonymous"}`
+      : "Host offline";
+    hostStatus.textContent = `${hostLabel} · ${response.listenerCount} ${listenerLabel}`;
+    hostStatus.style.color = host ? "#1DB954" : "#666";
+
+    // The current host can hand the host role to any listener
+    const roster = document.getElementById("roster") as HTMLUListElement;
+    roster.innerHTML = "";
+    for (const member of response.members) {
+      const item = document.createElement("li");
+      const isMe = member.clientId === response.clientId;
+      item.textContent = `${member.displayName || "Anonymous"}${isMe ? " (you)" : ""} (${member.role})`;
+      if (response.role === "host" && member.role === "listener") {
+        const handoffButton = document.createElement("button");
+        handoffButton.textContent = "Make Host";
+        handoffButton.addEventListener("click", () => requestHandoff(member.clientId));
+        item.appendChild(handoffButton);
+      }
+      roster.appendChild(item);
+    }
+
+    // Host role offered to us
+    const handoffOffer = document.getElementById("handoff-offer") as HTMLDivElement;
+    if (response.pendingHandoff) {
+      const from = response.pendingHandoff.from.displayName || "The host";
+      const offerText = document.getElementById("handoff-offer-text") as HTMLDivElement;
+      offerText.textContent =
+        response.pendingHandoff.reason === "rotation"
+          ? `Your turn to DJ! You take over after ${from}'s current track (play music on Apple Music)`
+          : `${from} wants to hand you the host role (play music on Apple Music)`;
+      handoffOffer.style.display = "block";
+    } else {
+      handoffOffer.style.display = "none";
+    }
+
+    const reclaimButton = document.getElementById("reclaim-host") as HTMLButtonElement;
+    reclaimButton.style.display = response.isOwner && response.role !== "host" ? "block" : "none";
+
+    const rotationSection = document.getElementById("dj-rotation-section") as HTMLDivElement;
+    rotationSection.style.display = response.role === "host" || response.isOwner ? "block" : "none";
+    const rotationInput = document.getElementById("dj-rotation") as HTMLInputElement;
+    if (document.activeElement !== rotationInput) {
+      rotationInput.value = String(response.djRotationTracks ?? 0);
+    }
+  } catch (error) {
+    console.error("Failed to get presence:", error);
+  }
+}
+
+// Offer the host role to another member (Host only)
+async function requestHandoff(targetClientId: string) {
+  const response = await chrome.runtime.sendMessage({ type: "HANDOFF_REQUEST", targetClientId });
+  if (response && response.success) {
+    showStatus("Host handoff offered", "info");
+  } else {
+    showStatus("Not connected", "error");
+  }
+}
+
+// Accept or decline a host role offered to us
+async function respondToHandoff(accept: boolean) {
+  const response = await chrome.runtime.sendMessage({ type: "HANDOFF_RESPONSE", accept });
+  if (response && response.success) {
+    showStatus(accept ? "Handoff accepted" : "Handoff declined", "info");
+    updatePresence();
+  } else {
+    showStatus(response?.error || "Handoff offer expired", "error");
+  }
+}
+
+// Session owner takes the host role back
+async function reclaimHost() {
+  const response = await chrome.runtime.sendMessage({ type: "RECLAIM_HOST" });
+  if (!response || !response.success) {
+    showStatus("Not connected", "error");
+  }
+}
+
+// Rotate the host role every N tracks (0 turns rotation off)
+async function setDjRotation() {
+  const rotationInput = document.getElementById("dj-rotation") as HTMLInputElement;
+  const tracksPerTurn = parseInt(rotationInput.value, 10);
+  if (isNaN(tracksPerTurn) || tracksPerTurn < 0 || tracksPerTurn > 50) {
+    showStatus("Enter a number of tracks from 0 to 50", "error");
+    return;
+  }
+
+  const response = await chrome.runtime.sendMessage({ type: "SET_DJ_ROTATION", tracksPerTurn });
+  if (response && response.success) {
+    showStatus(tracksPerTurn ? `DJ rotates every ${tracksPerTurn} track(s)` : "DJ rotation off", "success");
+  } else {
+    showStatus("Not connected", "error");
+  }
+}
+
 // Event listeners
 document.addEventListener("DOMContentLoaded", () => {
   loadConfig();
   updateConnectionStatus();
+  updatePresence();
 
   // Role buttons
   document.getElementById("role-host")!.addEventListener("click", () => {
@@ -258,18 +706,48 @@ document.addEventListener("DOMContentLoaded", () => {
     updateUI();
   });
 
+  // Create session button (host)
+  document.getElementById("create-session")!.addEventListener("click", createSession);
+
   // Save button
   document.getElementById("save-config")!.addEventListener("click", saveConfig);
 
   // Spotify auth button
   document.getElementById("auth-spotify")!.addEventListener("click", openSpotifyAuth);
 
+  // Host-lost policy applies immediately (background listens for storage changes)
+  document.getElementById("host-lost-policy")!.addEventListener("change", async (event) => {
+    const value = (event.target as HTMLSelectElement).value;
+    await chrome.storage.local.set({ hostLostPolicy: value });
+    showStatus("Host disconnect policy saved", "success");
+  });
+
+  // Host handoff and DJ rotation
+  document.getElementById("handoff-accept")!.addEventListener("click", () => respondToHandoff(true));
+  document.getElementById("handoff-decline")!.addEventListener("click", () => respondToHandoff(false));
+  document.getElementById("reclaim-host")!.addEventListener("click", reclaimHost);
+  document.getElementById("set-dj-rotation")!.addEventListener("click", setDjRotation);
+
+  // Spotify device picker
+  document.getElementById("use-device")!.addEventListener("click", useDevice);
+  document.getElementById("refresh-devices")!.addEventListener("click", updateDevices);
+
+  // Session playlist button
+  document.getElementById("create-playlist")!.addEventListener("click", createPlaylist);
+
+  // Match override button
+  document.getElementById("fix-match")!.addEventListener("click", fixMatch);
+
   // Connection control buttons
   document.getElementById("start-connection")!.addEventListener("click", startConnection);
   document.getElementById("stop-connection")!.addEventListener("click", stopConnection);
 
   // Update connection status periodically
-  const statusIntervalId = setInterval(updateConnectionStatus, 3000);
+  const statusIntervalId = setInterval(() => {
+    updateConnectionStatus();
+    updateNowPlaying();
+    updatePresence();
+  }, 3000);
   // Add cleanup  
   window.addEventListener("beforeunload", () => {  
     if (statusIntervalId) {  
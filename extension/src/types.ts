@@ -10,37 +10,187 @@ export interface ApplePlaybackState {
   positionSec: number; // seconds
   playbackState: "playing" | "paused" | "stopped";
   hostTimestampMs: number; // Date.now() when this snapshot was taken
+  isrc?: string | null; // International Standard Recording Code, when MusicKit exposes it
+  catalogId?: string | null; // Apple Music catalog song id (trackId may be a library id)
+  serverTimestampMs?: number; // hostTimestampMs in relay server time (set by the relay before broadcast)
 }
 
+/**
+ * Spotify match resolved by the relay for the host's current track
+ */
+export interface TrackMatchInfo {
+  status: "matched" | "low_confidence" | "not_found" | "error";
+  spotifyUri: string | null;
+  confidence: number | null;
+  method: "isrc" | "search" | "manual" | null;
+  spotifyTitle: string | null;
+  spotifyArtists: string[] | null;
+}
+
+/**
+ * Track in the host's upcoming Apple Music queue
+ */
+export interface UpcomingTrack {
+  trackId: string;
+  title: string;
+  artist: string | null;
+  album: string | null;
+  durationSec: number | null; // seconds
+  isrc?: string | null;
+  catalogId?: string | null;
+  match?: TrackMatchInfo; // pre-resolved by the relay before it forwards the queue
+}
+
+/**
+ * Session member as shown to other members (listenerId is private and never shared)
+ */
+export interface MemberInfo {
+  clientId: string;
+  role: "host" | "listener";
+  displayName: string | null;
+  connectedAt: number; // timestamp in milliseconds
+}
+
+/**
+ * Why a host handoff was offered: the host chose a member, or DJ rotation picked the next one
+ */
+export type HandoffReason = "handoff" | "rotation";
+
+/**
+ * Why the host role moved to another member
+ * "host_left": the host disconnected and the seat went to the next DJ or the session owner
+ */
+export type HostChangeReason = "handoff" | "rotation" | "reclaim" | "host_left";
+
 /**
  * WebSocket message types
  */
 export type WsMessage =
-  | { type: "JOIN"; sessionId: string; role: "host" | "listener"; listenerId?: string }
-  | { type: "STATE_UPDATE"; sessionId: string; payload: ApplePlaybackState }
-  | { type: "JOINED"; sessionId: string; role: "host" | "listener" }
+  | {
+      type: "JOIN";
+      sessionId?: string; // required for hosts
+      role: "host" | "listener";
+      listenerId?: string;
+      displayName?: string;
+      ownerSecret?: string; // hosts: secret returned when the session was created
+      joinCode?: string; // listeners: shareable code for the session
+    }
+  | {
+      type: "STATE_UPDATE";
+      sessionId: string;
+      payload: ApplePlaybackState;
+      match?: TrackMatchInfo;
+      snapshot?: boolean; // true when replayed from the relay's cache to a late joiner
+    }
+  | { type: "MATCH_UPDATED"; sessionId: string; appleTrackId: string; match: TrackMatchInfo }
+  | { type: "QUEUE_UPDATE"; sessionId: string; upcoming: UpcomingTrack[] } // next tracks after the current one
+  | {
+      type: "PRESENCE";
+      sessionId: string;
+      hostOnline: boolean;
+      members: MemberInfo[];
+      listenerCount: number;
+      djRotationTracks: number; // 0 when DJ rotation is off
+    }
+  | { type: "MEMBER_JOINED"; sessionId: string; member: MemberInfo; listenerCount: number }
+  | { type: "MEMBER_LEFT"; sessionId: string; member: MemberInfo; listenerCount: number }
+  | { type: "HOST_ONLINE"; sessionId: string; member: MemberInfo }
+  | { type: "HOST_OFFLINE"; sessionId: string }
+  | { type: "HOST_LOST"; sessionId: string; offlineSinceMs: number }
+  | {
+      type: "HOST_CHANGED";
+      sessionId: string;
+      host: MemberInfo;
+      previousHost: MemberInfo | null;
+      reason: HostChangeReason;
+      listenerCount: number;
+    }
+  | { type: "HANDOFF_REQUEST"; targetClientId: string }
+  | {
+      type: "HANDOFF_OFFERED";
+      sessionId: string;
+      requestId: string;
+      from: MemberInfo;
+      reason: HandoffReason;
+      expiresInMs: number;
+    }
+  | { type: "HANDOFF_RESPONSE"; requestId: string; accept: boolean }
+  | {
+      type: "HANDOFF_DECLINED";
+      sessionId: string;
+      requestId: string;
+      target: MemberInfo;
+      reason: "declined" | "expired" | "left";
+    }
+  | { type: "HANDOFF_CANCELLED"; sessionId: string; requestId: string }
+  | { type: "RECLAIM_HOST" }
+  | { type: "SET_DJ_ROTATION"; tracksPerTurn: number } // 0 turns rotation off
+  | { type: "DJ_ROTATION"; sessionId: string; tracksPerTurn: number }
+  | { type: "RESUME"; resumeToken: string; lastSeq: number } // lastSeq: highest seq received so far
+  | {
+      type: "RESUMED";
+      sessionId: string;
+      clientId: string;
+      role: "host" | "listener";
+      resumeToken: string;
+      seq: number; // session's sequence number when resumed
+    }
+  | { type: "RESUME_FAILED"; message: string }
+  | { type: "SESSION_CLOSED"; sessionId: string; reason: string } // closed by an admin
+  | { type: "KICKED"; sessionId: string; clientId: string; reason: string } // removed by an admin
+  | { type: "TIME_PING"; clientSendMs: number }
+  | { type: "TIME_PONG"; clientSendMs: number; serverReceiveMs: number; serverSendMs: number }
+  | { type: "REGISTER_HEADLESS"; joinCode: string; listenerId: string }
+  | { type: "UNREGISTER_HEADLESS"; listenerId: string }
+  | { type: "HEADLESS_REGISTERED"; sessionId: string; listenerId: string }
+  | { type: "HEADLESS_UNREGISTERED"; listenerId: string }
+  | {
+      type: "JOINED";
+      sessionId: string;
+      clientId: string;
+      role: "host" | "listener";
+      resumeToken: string; // send in RESUME after a reconnect to keep identity and role
+      seq: number;
+    }
   | { type: "ERROR"; message: string };
 
+/**
+ * Relay messages to session members carry a per-session sequence number
+ */
+export type SequencedWsMessage = WsMessage & { seq?: number };
+
 /**
  * Extension message types for chrome.runtime communication
  */
-export interface ExtensionMessage {
-  source: "APPLE_SYNC";
-  type: "APPLE_STATE";
-  payload: ApplePlaybackState;
-}
+export type ExtensionMessage =
+  | { source: "APPLE_SYNC"; type: "APPLE_STATE"; payload: ApplePlaybackState }
+  | { source: "APPLE_SYNC"; type: "APPLE_QUEUE"; payload: UpcomingTrack[] };
 
 /**
  * MusicKit types (for type safety when accessing window.MusicKit)
  */
+export interface MusicKitMediaItem {
+  id: string;
+  title: string;
+  artistName: string;
+  albumName: string;
+  duration: number; // milliseconds
+  isrc?: string;
+  attributes?: {
+    isrc?: string;
+    playParams?: {
+      id: string;
+      catalogId?: string;
+    };
+  };
+}
+
 export interface MusicKitInstance {
-  nowPlayingItem: {
-    id: string;
-    title: string;
-    artistName: string;
-    albumName: string;
-    duration: number; // milliseconds
-  } | null;
+  nowPlayingItem: MusicKitMediaItem | null;
+  queue?: {
+    items: MusicKitMediaItem[];
+    position: number; // index of the now playing item, -1 when nothing is queued
+  };
   currentPlaybackTime: number; // seconds
   currentPlaybackDuration: number; // seconds
   playbackState: number; // 0 = none, 1 = loading, 2 = playing, 3 = paused, 4 = stopped
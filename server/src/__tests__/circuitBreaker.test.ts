@@ -0,0 +1,64 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker } from "../circuitBreaker";
+
+function fakeClock(t: TestContext): (ms: number) => void {
+  let now = Date.now();
+  t.mock.method(Date, "now", () => now);
+  return (ms) => {
+    now += ms;
+  };
+}
+
+test("opens after the failure threshold and rejects until openMs passes", (t) => {
+  const advance = fakeClock(t);
+  const breaker = new CircuitBreaker(3, 1000);
+
+  assert.equal(breaker.recordFailure(), false);
+  assert.equal(breaker.recordFailure(), false);
+  assert.equal(breaker.tryAcquire(), true);
+  assert.equal(breaker.recordFailure(), true);
+  assert.equal(breaker.getState().status, "open");
+  assert.equal(breaker.tryAcquire(), false);
+
+  advance(1000);
+  assert.equal(breaker.getState().status, "half_open");
+});
+
+test("a success resets the failure count", () => {
+  const breaker = new CircuitBreaker(2, 1000);
+
+  breaker.recordFailure();
+  breaker.recordSuccess();
+  assert.equal(breaker.recordFailure(), false);
+  assert.equal(breaker.getState().status, "closed");
+});
+
+test("half open lets one trial through; its outcome closes or reopens the circuit", (t) => {
+  const advance = fakeClock(t);
+  const breaker = new CircuitBreaker(1, 1000);
+  breaker.recordFailure();
+
+  advance(1000);
+  assert.equal(breaker.tryAcquire(), true);
+  assert.equal(breaker.tryAcquire(), false);
+  breaker.recordFailure();
+  assert.equal(breaker.getState().status, "open");
+
+  advance(1000);
+  assert.equal(breaker.tryAcquire(), true);
+  breaker.recordSuccess();
+  assert.equal(breaker.getState().status, "closed");
+  assert.equal(breaker.tryAcquire(), true);
+});
+
+test("a failure with its own wait opens the circuit for that long", (t) => {
+  const advance = fakeClock(t);
+  const breaker = new CircuitBreaker(5, 1000);
+
+  assert.equal(breaker.recordFailure(30000), true);
+  advance(29999);
+  assert.equal(breaker.tryAcquire(), false);
+  advance(1);
+  assert.equal(breaker.tryAcquire(), true);
+});
@@ -0,0 +1,183 @@
+import net from "net";
+
+type Reply = string | number | null | Error | { status: string } | Reply[];
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return "$-1\r\n";
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (typeof reply === "number") return `:${reply}\r\n`;
+  if (typeof reply === "string") return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join("")}`;
+  return `+${reply.status}\r\n`;
+}
+
+/**
+ * Parse the complete commands (arrays of bulk strings) at the start of the buffer
+ * Returns them with the number of bytes they used.
+ */
+function parseCommands(buffer: Buffer): { commands: string[][]; used: number } {
+  const commands: string[][] = [];
+  let used = 0;
+
+  parsing: while (used < buffer.length) {
+    let position = used;
+    const readLine = (): string | null => {
+      const end = buffer.indexOf("\r\n", position);
+      if (end === -1) return null;
+      const line = buffer.toString("utf8", position, end);
+      position = end + 2;
+      return line;
+    };
+
+    const header = readLine();
+    if (header === null) break;
+    const args: string[] = [];
+    for (let i = 0; i < parseInt(header.slice(1), 10); i++) {
+      const lengthLine = readLine();
+      if (lengthLine === null) break parsing;
+      const length = parseInt(lengthLine.slice(1), 10);
+      if (buffer.length < position + length + 2) break parsing;
+      args.push(buffer.toString("utf8", position, position + length));
+      position += length + 2;
+    }
+    commands.push(args);
+    used = position;
+  }
+  return { commands, used };
+}
+
+/**
+ * In-process stand-in for a Redis server
+ * Speaks just enough RESP for RedisBroker: AUTH, SELECT, SET (PX is accepted but keys only expire through
+ * expire()), MGET, DEL, HSET, HDEL, HGETALL and pub/sub.
+ */
+export class FakeRedisServer {
+  public received: string[][] = [];
+  private server: net.Server;
+  private password: string | null;
+  private clients: Set<net.Socket> = new Set();
+  private strings: Map<string, string> = new Map();
+  private hashes: Map<string, Map<string, string>> = new Map();
+  private subscriptions: Map<net.Socket, Set<string>> = new Map();
+
+  constructor(password: string | null = null) {
+    this.password = password;
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  public listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, "127.0.0.1", () => resolve((this.server.address() as net.AddressInfo).port));
+    });
+  }
+
+  public close(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Cut every client connection, as a server restart or network blip would
+   */
+  public dropConnections(): void {
+    for (const socket of this.clients) {
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Let a key expire now
+   */
+  public expire(key: string): void {
+    this.strings.delete(key);
+    this.hashes.delete(key);
+  }
+
+  public getHash(key: string): Map<string, string> {
+    return this.hashes.get(key) ?? new Map();
+  }
+
+  public subscriberCount(channel: string): number {
+    return [...this.subscriptions.values()].filter((channels) => channels.has(channel)).length;
+  }
+
+  private accept(socket: net.Socket): void {
+    this.clients.add(socket);
+    let buffer = Buffer.alloc(0);
+    let authenticated = this.password === null;
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      const { commands, used } = parseCommands(buffer);
+      buffer = buffer.subarray(used);
+
+      for (const args of commands) {
+        this.received.push(args);
+        if (args[0].toUpperCase() === "AUTH") {
+          authenticated = args[args.length - 1] === this.password;
+          socket.write(encodeReply(authenticated ? { status: "OK" } : new Error("WRONGPASS invalid password")));
+        } else if (!authenticated) {
+          socket.write(encodeReply(new Error("NOAUTH Authentication required")));
+        } else {
+          socket.write(encodeReply(this.execute(socket, args)));
+        }
+      }
+    });
+    socket.on("close", () => {
+      this.clients.delete(socket);
+      this.subscriptions.delete(socket);
+    });
+    socket.on("error", () => {
+      // the client went away mid-write
+    });
+  }
+
+  private execute(socket: net.Socket, [name, ...args]: string[]): Reply {
+    switch (name.toUpperCase()) {
+      case "SELECT":
+        return { status: "OK" };
+      case "SET":
+        this.strings.set(args[0], args[1]);
+        return { status: "OK" };
+      case "MGET":
+        return args.map((key) => this.strings.get(key) ?? null);
+      case "DEL":
+        return args.filter((key) => this.strings.delete(key) || this.hashes.delete(key)).length;
+      case "HSET": {
+        const hash = this.hashes.get(args[0]) ?? new Map<string, string>();
+        this.hashes.set(args[0], hash);
+        hash.set(args[1], args[2]);
+        return 1;
+      }
+      case "HDEL": {
+        const hash = this.hashes.get(args[0]);
+        return args.slice(1).filter((field) => hash?.delete(field)).length;
+      }
+      case "HGETALL":
+        return [...(this.hashes.get(args[0]) ?? new Map<string, string>())].flat();
+      case "PUBLISH": {
+        let delivered = 0;
+        for (const [subscriber, channels] of this.subscriptions) {
+          if (channels.has(args[0])) {
+            subscriber.write(encodeReply(["message", args[0], args[1]]));
+            delivered++;
+          }
+        }
+        return delivered;
+      }
+      case "SUBSCRIBE":
+      case "UNSUBSCRIBE": {
+        const channels = this.subscriptions.get(socket) ?? new Set<string>();
+        this.subscriptions.set(socket, channels);
+        if (name.toUpperCase() === "SUBSCRIBE") {
+          channels.add(args[0]);
+        } else {
+          channels.delete(args[0]);
+        }
+        return [name.toLowerCase(), args[0], channels.size];
+      }
+      default:
+        return new Error(`ERR unknown command '${name}'`);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MatchCache, CachedMatch } from "../matchCache";
+
+function match(overrides: Partial<CachedMatch> = {}): CachedMatch {
+  return {
+    spotifyUri: "spotify:track:abc",
+    confidence: 0.9,
+    method: "search",
+    spotifyTitle: "Song",
+    spotifyArtists: ["Artist"],
+    cachedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+test("looks up by Apple track id, falling back to ISRC", () => {
+  const cache = new MatchCache(null);
+  cache.set("apple-1", "usabc1234567", match());
+
+  assert.equal(cache.get("apple-1")?.spotifyUri, "spotify:track:abc");
+  assert.equal(cache.get("apple-2", "USABC1234567")?.spotifyUri, "spotify:track:abc");
+  assert.equal(cache.get("apple-2"), null);
+});
+
+test("expires entries older than the TTL", (t) => {
+  const cache = new MatchCache(null, 1000);
+  const now = Date.now();
+  cache.set("apple-1", null, match({ cachedAt: now }));
+
+  t.mock.method(Date, "now", () => now + 1000);
+  assert.notEqual(cache.get("apple-1"), null);
+
+  t.mock.method(Date, "now", () => now + 1001);
+  assert.equal(cache.get("apple-1"), null);
+  assert.equal(cache.size(), 0);
+});
+
+test("invalidate drops the ISRC key of the same match", () => {
+  const cache = new MatchCache(null);
+  cache.set("apple-1", "USABC1234567", match());
+
+  assert.equal(cache.invalidate("apple-1"), true);
+  assert.equal(cache.get(null, "USABC1234567"), null);
+  assert.equal(cache.invalidate("apple-1"), false);
+});
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SpotifyTrackCandidate,
+  normalizeTitle,
+  normalizeArtist,
+  scoreCandidate,
+  pickBestMatch,
+  buildSearchQuery,
+} from "../matcher";
+
+function candidate(overrides: Partial<SpotifyTrackCandidate>): SpotifyTrackCandidate {
+  return {
+    uri: "spotify:track:original",
+    name: "Bohemian Rhapsody",
+    artists: ["Queen"],
+    album: "A Night at the Opera",
+    durationMs: 354000,
+    ...overrides,
+  };
+}
+
+test("normalizeTitle drops version suffixes and featured artists", () => {
+  assert.equal(normalizeTitle("Bohemian Rhapsody - Remastered 2011"), "bohemian rhapsody");
+  assert.equal(normalizeTitle("Get Lucky (feat. Pharrell Williams)"), "get lucky");
+  assert.equal(normalizeTitle("Hey Jude [Live]"), "hey jude");
+  assert.equal(normalizeTitle("Señorita feat. Camila"), "senorita");
+});
+
+test("normalizeTitle keeps bracketed parts that name the song", () => {
+  assert.equal(normalizeTitle("(I Can't Get No) Satisfaction"), "i can t get no satisfaction");
+});
+
+test("normalizeArtist keeps only the primary artist", () => {
+  assert.equal(normalizeArtist("Daft Punk feat. Pharrell Williams"), "daft punk");
+  assert.equal(normalizeArtist("Simon & Garfunkel, Someone Else"), "simon and garfunkel");
+});
+
+test("scoreCandidate scores an exact match 1", () => {
+  const score = scoreCandidate(
+    { title: "Bohemian Rhapsody", artist: "Queen", album: "A Night at the Opera", durationSec: 354 },
+    candidate({})
+  );
+  assert.equal(score, 1);
+});
+
+test("scoreCandidate penalizes karaoke versions unless asked for", () => {
+  const karaoke = candidate({ name: "Bohemian Rhapsody (Karaoke Version)", artists: ["Queen"] });
+  const query = { title: "Bohemian Rhapsody", artist: "Queen" };
+
+  assert.ok(scoreCandidate(query, karaoke) < 0.6);
+  assert.equal(scoreCandidate({ ...query, title: "Bohemian Rhapsody (Karaoke Version)" }, karaoke), 1);
+});
+
+test("scoreCandidate lowers the score as the duration drifts", () => {
+  const query = { title: "Bohemian Rhapsody", artist: "Queen", durationSec: 354 };
+  const close = scoreCandidate(query, candidate({ durationMs: 355500 }));
+  const far = scoreCandidate(query, candidate({ durationMs: 300000 }));
+
+  assert.equal(close, 1);
+  assert.ok(far < close);
+});
+
+test("pickBestMatch returns the highest scoring candidate", () => {
+  const match = pickBestMatch({ title: "Bohemian Rhapsody", artist: "Queen" }, [
+    candidate({ uri: "spotify:track:cover", artists: ["Tribute Band"], name: "Bohemian Rhapsody (Cover)" }),
+    candidate({}),
+  ]);
+
+  assert.equal(match?.uri, "spotify:track:original");
+  assert.equal(match?.method, "search");
+});
+
+test("pickBestMatch returns null without candidates", () => {
+  assert.equal(pickBestMatch({ title: "Anything" }, []), null);
+});
+
+test("buildSearchQuery uses field filters", () => {
+  assert.equal(
+    buildSearchQuery({ title: "Get Lucky (feat. Pharrell Williams)", artist: "Daft Punk" }),
+    "track:get lucky artist:daft punk"
+  );
+  assert.equal(buildSearchQuery({ title: "Hey Jude" }), "track:hey jude");
+});
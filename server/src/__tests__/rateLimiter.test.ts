@@ -0,0 +1,61 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { RateLimiter, KeyedRateLimiter } from "../rateLimiter";
+
+/**
+ * Freeze Date.now for the test and return a function that moves it forward
+ */
+function fakeClock(t: TestContext): (ms: number) => void {
+  let now = Date.now();
+  t.mock.method(Date, "now", () => now);
+  return (ms) => {
+    now += ms;
+  };
+}
+
+test("RateLimiter allows a burst, then refills at the rate", (t) => {
+  const advance = fakeClock(t);
+  const limiter = new RateLimiter(2, 3);
+
+  assert.equal(limiter.tryRemove(), true);
+  assert.equal(limiter.tryRemove(), true);
+  assert.equal(limiter.tryRemove(), true);
+  assert.equal(limiter.tryRemove(), false);
+
+  advance(499);
+  assert.equal(limiter.tryRemove(), false);
+  advance(1);
+  assert.equal(limiter.tryRemove(), true);
+});
+
+test("RateLimiter never refills beyond the burst", (t) => {
+  const advance = fakeClock(t);
+  const limiter = new RateLimiter(10, 2);
+
+  advance(60000);
+  assert.equal(limiter.tryRemove(), true);
+  assert.equal(limiter.tryRemove(), true);
+  assert.equal(limiter.tryRemove(), false);
+});
+
+test("KeyedRateLimiter limits each key separately", (t) => {
+  fakeClock(t);
+  const limiter = new KeyedRateLimiter(1, 2);
+
+  assert.equal(limiter.tryRemove("a"), true);
+  assert.equal(limiter.tryRemove("a"), true);
+  assert.equal(limiter.tryRemove("a"), false);
+  assert.equal(limiter.tryRemove("b"), true);
+});
+
+test("KeyedRateLimiter drops idle buckets once they would have refilled", (t) => {
+  const advance = fakeClock(t);
+  const limiter = new KeyedRateLimiter(1, 2);
+  limiter.tryRemove("a");
+  limiter.tryRemove("b");
+
+  advance(2000);
+  limiter.tryRemove("c");
+  const buckets = (limiter as unknown as { limiters: Map<string, unknown> }).limiters;
+  assert.deepEqual([...buckets.keys()], ["c"]);
+});
@@ -0,0 +1,161 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { RedisBroker, encodeCommand, parseReply } from "../redisBroker";
+import { BrokerEnvelope, BrokerMember } from "../broker";
+import { FakeRedisServer } from "./fakeRedisServer";
+
+const PREFIX = "test:";
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Start a fake server and a broker connected to it, both stopped when the test ends
+ */
+async function connect(t: TestContext, password: string | null = null) {
+  const server = new FakeRedisServer(password);
+  const port = await server.listen();
+  const brokers: RedisBroker[] = [];
+  t.after(async () => {
+    await Promise.all(brokers.map((broker) => broker.close()));
+    await server.close();
+  });
+
+  const open = async (): Promise<RedisBroker> => {
+    const credentials = password ? `:${password}@` : "";
+    const broker = new RedisBroker(`redis://${credentials}127.0.0.1:${port}/2`, PREFIX);
+    brokers.push(broker);
+    await waitFor(() => broker.getMembers("ready-check").then(() => true, () => false));
+    return broker;
+  };
+  return { server, open };
+}
+
+function member(clientId: string, instanceId: string): BrokerMember {
+  return { clientId, instanceId, role: "listener", displayName: null, connectedAt: 0 };
+}
+
+function envelope(sessionId: string): BrokerEnvelope {
+  return { origin: "instance-a", sessionId, message: { type: "HOST_OFFLINE", sessionId }, audience: "all" };
+}
+
+test("encodeCommand writes an array of bulk strings with byte lengths", () => {
+  assert.equal(encodeCommand(["SET", "ключ", "1"]), "*3\r\n$3\r\nSET\r\n$8\r\nключ\r\n$1\r\n1\r\n");
+});
+
+test("parseReply reads every reply type", () => {
+  const buffer = Buffer.from("+OK\r\n-ERR boom\r\n:42\r\n$-1\r\n*2\r\n$5\r\nhello\r\n*1\r\n:1\r\n");
+  const values = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const reply = parseReply(buffer, offset)!;
+    values.push(reply.value);
+    offset = reply.offset;
+  }
+
+  assert.deepEqual(values, ["OK", new Error("ERR boom"), 42, null, ["hello", [1]]]);
+});
+
+test("parseReply waits for the rest of a value split across chunks", () => {
+  const full = Buffer.from("*2\r\n$7\r\nmessage\r\n$5\r\nprêt\r\n");
+
+  for (let end = 0; end < full.length; end++) {
+    assert.equal(parseReply(full.subarray(0, end), 0), null, `complete after ${end} bytes`);
+  }
+  assert.deepEqual(parseReply(full, 0), { value: ["message", "prêt"], offset: full.length });
+});
+
+test("parseReply rejects an unknown reply type", () => {
+  assert.throws(() => parseReply(Buffer.from("?what\r\n"), 0), /Unexpected RESP reply type/);
+});
+
+test("authenticates and selects the database from the URL", async (t) => {
+  const { server, open } = await connect(t, "s3cret");
+  await open();
+
+  // Both connections (commands and subscriber) authenticate before anything else
+  assert.deepEqual(
+    server.received.slice(0, 4).map((args) => args.join(" ")).sort(),
+    ["AUTH s3cret", "AUTH s3cret", "SELECT 2", "SELECT 2"]
+  );
+});
+
+test("delivers published envelopes to subscribers of the session", async (t) => {
+  const { server, open } = await connect(t);
+  const publisher = await open();
+  const subscriber = await open();
+  const received: BrokerEnvelope[] = [];
+  const handler = (message: BrokerEnvelope) => received.push(message);
+
+  await subscriber.subscribe("s1", handler);
+  await publisher.publish(envelope("s2"));
+  await publisher.publish(envelope("s1"));
+  await waitFor(() => received.length === 1);
+  assert.equal(received[0].sessionId, "s1");
+
+  await subscriber.unsubscribe("s1", handler);
+  assert.equal(server.subscriberCount(`${PREFIX}session:s1`), 0);
+});
+
+test("resubscribes and restores members after the connection drops", async (t) => {
+  const { server, open } = await connect(t);
+  const broker = await open();
+  const received: BrokerEnvelope[] = [];
+  await broker.subscribe("s1", (message) => received.push(message));
+  await broker.setMember("s1", member("c1", "instance-a"));
+
+  server.dropConnections();
+  // Pruned by another instance while we were away
+  server.expire(`${PREFIX}members:s1`);
+  server.expire(`${PREFIX}instance:instance-a`);
+
+  await waitFor(() => server.subscriberCount(`${PREFIX}session:s1`) === 1);
+  await waitFor(() => server.getHash(`${PREFIX}members:s1`).has("c1"));
+  assert.deepEqual(
+    (await broker.getMembers("s1")).map((restored) => restored.clientId),
+    ["c1"]
+  );
+
+  await broker.publish(envelope("s1"));
+  await waitFor(() => received.length === 1);
+});
+
+test("drops members whose instance stopped refreshing its heartbeat", async (t) => {
+  const { server, open } = await connect(t);
+  const alive = await open();
+  const crashed = await open();
+  await alive.setMember("s1", member("c1", "instance-a"));
+  await crashed.setMember("s1", member("c2", "instance-b"));
+  assert.equal((await alive.getMembers("s1")).length, 2);
+
+  server.expire(`${PREFIX}instance:instance-b`);
+
+  assert.deepEqual(
+    (await alive.getMembers("s1")).map((live) => live.clientId),
+    ["c1"]
+  );
+  assert.deepEqual([...server.getHash(`${PREFIX}members:s1`).keys()], ["c1"]);
+});
+
+test("close removes this instance's members and heartbeat", async (t) => {
+  const { server, open } = await connect(t);
+  const leaving = await open();
+  const staying = await open();
+  await leaving.setMember("s1", member("c1", "instance-a"));
+  await staying.setMember("s1", member("c2", "instance-b"));
+
+  await leaving.close();
+
+  assert.deepEqual([...server.getHash(`${PREFIX}members:s1`).keys()], ["c2"]);
+  assert.deepEqual(
+    (await staying.getMembers("s1")).map((live) => live.clientId),
+    ["c2"]
+  );
+});
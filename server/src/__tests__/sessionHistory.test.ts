@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SessionHistory, HistoryEntry, historyToCsv } from "../sessionHistory";
+import { ApplePlaybackState, TrackMatchInfo } from "../types";
+
+const START_MS = Date.UTC(2024, 0, 1, 20, 0, 0);
+
+function state(trackId: string, positionSec: number, atMs: number): ApplePlaybackState {
+  return {
+    trackId,
+    title: `Title ${trackId}`,
+    artist: "Artist",
+    album: "Album",
+    durationSec: 200,
+    positionSec,
+    playbackState: "playing",
+    hostTimestampMs: atMs,
+    serverTimestampMs: atMs,
+  };
+}
+
+function match(status: TrackMatchInfo["status"], spotifyUri: string | null): TrackMatchInfo {
+  return { status, spotifyUri, confidence: 0.9, method: "search", spotifyTitle: null, spotifyArtists: null };
+}
+
+function entry(overrides: Partial<HistoryEntry>): HistoryEntry {
+  return {
+    appleTrackId: "1",
+    catalogId: null,
+    isrc: null,
+    title: "Song",
+    artist: "Artist",
+    album: "Album",
+    startedAt: START_MS,
+    durationSec: 200,
+    playedSec: 12.34,
+    spotifyUri: null,
+    ...overrides,
+  };
+}
+
+test("appends an entry per track and counts the time played", () => {
+  const history = new SessionHistory(null);
+  history.record("s1", state("a", 0, START_MS), null);
+  history.record("s1", state("a", 10, START_MS + 10000), null);
+  // A seek forward isn't listening time
+  history.record("s1", state("a", 100, START_MS + 12000), null);
+  history.record("s1", state("b", 0, START_MS + 20000), null);
+
+  const entries = history.getEntries("s1");
+  assert.deepEqual(
+    entries.map((played) => [played.appleTrackId, played.playedSec, played.startedAt]),
+    [
+      ["a", 12, START_MS],
+      ["b", 0, START_MS + 20000],
+    ]
+  );
+});
+
+test("only keeps Spotify tracks listeners were actually sent to", () => {
+  const history = new SessionHistory(null);
+  history.record("s1", state("a", 0, START_MS), match("low_confidence", "spotify:track:guess"));
+  assert.equal(history.getEntries("s1")[0].spotifyUri, null);
+
+  history.updateSpotifyUri("s1", "a", match("matched", "spotify:track:fixed"));
+  assert.equal(history.getEntries("s1")[0].spotifyUri, "spotify:track:fixed");
+});
+
+test("keeps only the newest entries past the limit", () => {
+  const history = new SessionHistory(null, 2);
+  for (const [index, trackId] of ["a", "b", "c"].entries()) {
+    history.record("s1", state(trackId, 0, START_MS + index * 1000), null);
+  }
+
+  assert.deepEqual(
+    history.getEntries("s1").map((played) => played.appleTrackId),
+    ["b", "c"]
+  );
+});
+
+test("persists to disk, survives release and can be deleted", (t) => {
+  const dirPath = fs.mkdtempSync(path.join(os.tmpdir(), "history-"));
+  t.after(() => fs.rmSync(dirPath, { recursive: true, force: true }));
+
+  const history = new SessionHistory(dirPath);
+  history.record("s1", state("a", 0, START_MS), null);
+  history.release("s1");
+
+  assert.equal(new SessionHistory(dirPath).getEntries("s1").length, 1);
+  assert.equal(history.delete("s1"), true);
+  assert.deepEqual(new SessionHistory(dirPath).getEntries("s1"), []);
+  assert.equal(history.delete("s1"), false);
+});
+
+test("historyToCsv quotes fields and formats times", () => {
+  const csv = historyToCsv([entry({ title: 'Song, "Live"' })]);
+
+  assert.equal(
+    csv,
+    "startedAt,title,artist,album,durationSec,playedSec,appleTrackId,catalogId,isrc,spotifyUri\r\n" +
+      '2024-01-01T20:00:00.000Z,"Song, ""Live""",Artist,Album,200,12.3,1,,,\r\n'
+  );
+});
+
+test("historyToCsv keeps spreadsheet formulas from running", () => {
+  const csv = historyToCsv([entry({ title: "=HYPERLINK(\"http://x\")", artist: "+1", album: "@SUM(A1)" })]);
+  const row = csv.split("\r\n")[1];
+
+  assert.ok(row.includes(`"'=HYPERLINK(""http://x"")"`));
+  assert.ok(row.includes(",'+1,'@SUM(A1),"));
+});
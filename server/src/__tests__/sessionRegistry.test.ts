@@ -0,0 +1,72 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SessionRegistry } from "../sessionRegistry";
+
+function sessionsFile(t: TestContext): string {
+  const dirPath = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+  t.after(() => fs.rmSync(dirPath, { recursive: true, force: true }));
+  return path.join(dirPath, "sessions.json");
+}
+
+test("hosts prove ownership with the owner secret; listeners find the session by join code", async () => {
+  const registry = new SessionRegistry(null);
+  const session = await registry.create("  Friday night  ");
+
+  assert.equal(registry.get(session.sessionId)?.name, "Friday night");
+  assert.equal(registry.verifyOwner(session.sessionId, session.ownerSecret), true);
+  assert.equal(registry.verifyOwner(session.sessionId, "wrong"), false);
+  assert.equal(registry.findByJoinCode(` ${session.joinCode.toLowerCase()} `)?.sessionId, session.sessionId);
+});
+
+test("instances sharing the file see each other's sessions", async (t) => {
+  const filePath = sessionsFile(t);
+  const first = new SessionRegistry(filePath);
+  const second = new SessionRegistry(filePath);
+
+  const [a, b] = await Promise.all([first.create("a"), second.create("b")]);
+
+  assert.equal(first.findByJoinCode(b.joinCode)?.sessionId, b.sessionId);
+  assert.equal(second.findByJoinCode(a.joinCode)?.sessionId, a.sessionId);
+  assert.equal(new SessionRegistry(filePath).list().length, 2);
+});
+
+test("a write fails instead of going ahead while another instance holds the lock", async (t) => {
+  const filePath = sessionsFile(t);
+  const registry = new SessionRegistry(filePath);
+  fs.writeFileSync(`${filePath}.lock`, "");
+
+  await assert.rejects(registry.create("locked out"), /Timed out/);
+  assert.deepEqual(registry.list(), []);
+
+  fs.rmSync(`${filePath}.lock`);
+  await registry.create("after");
+  assert.equal(registry.list().length, 1);
+});
+
+test("a lock left by a dead instance is taken over", async (t) => {
+  const filePath = sessionsFile(t);
+  const registry = new SessionRegistry(filePath);
+  fs.writeFileSync(`${filePath}.lock`, "");
+  const longAgo = new Date(Date.now() - 60000);
+  fs.utimesSync(`${filePath}.lock`, longAgo, longAgo);
+
+  await registry.create("recovered");
+  assert.equal(registry.list().length, 1);
+  assert.equal(fs.existsSync(`${filePath}.lock`), false);
+});
+
+test("a session deleted on one instance stops resolving on the others", async (t) => {
+  const filePath = sessionsFile(t);
+  const first = new SessionRegistry(filePath);
+  const second = new SessionRegistry(filePath);
+  const session = await first.create("closing");
+  assert.notEqual(second.findByJoinCode(session.joinCode), null);
+
+  assert.equal(await first.delete(session.sessionId), true);
+
+  assert.equal(second.findByJoinCode(session.joinCode), null);
+  assert.equal(second.verifyOwner(session.sessionId, session.ownerSecret), false);
+});
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TrackResolver } from "../trackResolver";
+import { MatchCache } from "../matchCache";
+import { MatchOverrides } from "../matchOverrides";
+import { SpotifyClient } from "../spotify";
+import { MatchResult, TrackQuery } from "../matcher";
+
+const QUERY: TrackQuery = { title: "Song", artist: "Artist" };
+
+function result(uri: string, confidence: number): MatchResult {
+  return {
+    uri,
+    confidence,
+    method: "search",
+    candidate: { uri, name: "Song", artists: ["Artist"], album: "Album", durationMs: 200000 },
+  };
+}
+
+/**
+ * Spotify client whose searches stay pending until released, recording who searched
+ */
+function fakeSpotify() {
+  const searches: {
+    listenerId: string | null;
+    resolve: (value: MatchResult | null) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  const client = {
+    searchTrack: (listenerId: string | null) =>
+      new Promise<MatchResult | null>((resolve, reject) => searches.push({ listenerId, resolve, reject })),
+  } as unknown as SpotifyClient;
+  return { client, searches };
+}
+
+function createResolver(client: SpotifyClient): TrackResolver {
+  return new TrackResolver(client, new MatchCache(null), new MatchOverrides(null), 0.6);
+}
+
+test("concurrent misses for the same track share one search", async () => {
+  const { client, searches } = fakeSpotify();
+  const resolver = createResolver(client);
+
+  const first = resolver.resolve("listener-1", "apple-1", QUERY);
+  const second = resolver.resolve("listener-2", "apple-1", QUERY);
+  await new Promise(setImmediate);
+  assert.equal(searches.length, 1);
+
+  searches[0].resolve(result("spotify:track:abc", 0.9));
+  const [a, b] = await Promise.all([first, second]);
+  assert.equal(a.status, "matched");
+  assert.equal(a.fromCache, false);
+  assert.equal(b.match?.spotifyUri, "spotify:track:abc");
+  assert.equal(b.fromCache, true);
+});
+
+test("waiters search with their own account when the shared search fails", async () => {
+  const { client, searches } = fakeSpotify();
+  const resolver = createResolver(client);
+
+  const first = resolver.resolve("listener-1", "apple-1", QUERY);
+  const second = resolver.resolve("listener-2", "apple-1", QUERY);
+  await new Promise(setImmediate);
+
+  searches[0].reject(new Error("Token revoked"));
+  await assert.rejects(first, /Token revoked/);
+  await new Promise(setImmediate);
+  assert.equal(searches.length, 2);
+  assert.equal(searches[1].listenerId, "listener-2");
+
+  searches[1].resolve(result("spotify:track:abc", 0.9));
+  assert.equal((await second).status, "matched");
+});
+
+test("a cached match is reused without searching", async () => {
+  const { client, searches } = fakeSpotify();
+  const resolver = createResolver(client);
+
+  const first = resolver.resolve(null, "apple-1", QUERY);
+  await new Promise(setImmediate);
+  searches[0].resolve(result("spotify:track:abc", 0.3));
+  assert.equal((await first).status, "low_confidence");
+
+  const again = await resolver.resolve(null, "apple-1", QUERY);
+  assert.equal(again.status, "low_confidence");
+  assert.equal(again.fromCache, true);
+  assert.equal(searches.length, 1);
+});
@@ -0,0 +1,159 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import WebSocket from "ws";
+import { WebSocketRelay } from "../websocket";
+import { SessionRegistry } from "../sessionRegistry";
+import { ApplePlaybackState, WsMessage } from "../types";
+
+// JOINED is sent by the relay but not part of WsMessage
+type Joined = { type: "JOINED"; sessionId: string; clientId: string; role: "host" | "listener"; resumeToken: string };
+type Received = (WsMessage | Joined) & { seq?: number };
+
+/**
+ * Test-side socket that keeps every message it receives so tests can wait for a given type
+ */
+class TestClient {
+  public received: Received[] = [];
+  public socket: WebSocket;
+  private opened: Promise<void>;
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url);
+    this.socket.on("message", (data) => this.received.push(JSON.parse(data.toString())));
+    this.opened = new Promise((resolve, reject) => {
+      this.socket.once("open", () => resolve());
+      this.socket.once("error", reject);
+    });
+  }
+
+  public async send(message: WsMessage): Promise<void> {
+    await this.opened;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  public async next<T extends Received["type"]>(type: T, timeoutMs = 3000): Promise<Extract<Received, { type: T }>> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const index = this.received.findIndex((message) => message.type === type);
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0] as Extract<Received, { type: T }>;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${type}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function paused(positionSec: number): ApplePlaybackState {
+  return {
+    trackId: "apple-1",
+    title: "Song",
+    artist: "Artist",
+    album: null,
+    durationSec: 200,
+    positionSec,
+    playbackState: "paused",
+    hostTimestampMs: Date.now(),
+  };
+}
+
+/**
+ * Start a relay with a host and a listener joined to one session, all stopped when the test ends
+ */
+async function startSession(t: TestContext) {
+  // The relay's heartbeat interval must not keep the test process alive, nor its grace timers for long
+  const realSetInterval = setInterval;
+  t.mock.method(globalThis, "setInterval", (callback: () => void, ms: number) =>
+    realSetInterval(callback, ms).unref()
+  );
+
+  const server = http.createServer();
+  const registry = new SessionRegistry(null);
+  const relay = new WebSocketRelay(server, registry, null, null, {
+    stateCoalesceWindowMs: 0,
+    resumeGraceMs: 1000,
+    hostLostGraceMs: 500,
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const clients: TestClient[] = [];
+  const connect = (): TestClient => {
+    const client = new TestClient(url);
+    clients.push(client);
+    return client;
+  };
+  t.after(async () => {
+    clients.forEach((client) => client.socket.terminate());
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const session = await registry.create("Test");
+  const host = connect();
+  await host.send({ type: "JOIN", role: "host", sessionId: session.sessionId, ownerSecret: session.ownerSecret });
+  await host.next("JOINED");
+  const listener = connect();
+  await listener.send({ type: "JOIN", role: "listener", joinCode: session.joinCode });
+  const joined = await listener.next("JOINED");
+
+  return { relay, sessionId: session.sessionId, host, listener, resumeToken: joined.resumeToken, connect };
+}
+
+test("a resume with an unknown token fails", async (t) => {
+  const { connect } = await startSession(t);
+  const client = connect();
+
+  await client.send({ type: "RESUME", resumeToken: "not-a-token", lastSeq: 0 });
+
+  assert.equal((await client.next("RESUME_FAILED")).message, "Unknown or expired resume token");
+});
+
+test("a listener that missed broadcasts gets presence and the current state replayed", async (t) => {
+  const { relay, sessionId, host, listener, resumeToken, connect } = await startSession(t);
+  await host.send({ type: "STATE_UPDATE", sessionId, payload: paused(10) });
+  const seen = await listener.next("STATE_UPDATE");
+
+  listener.socket.terminate();
+  await host.send({ type: "STATE_UPDATE", sessionId, payload: paused(42) });
+  await waitFor(() => relay.getNowPlaying(sessionId)?.state.positionSec === 42);
+
+  const resumed = connect();
+  await resumed.send({ type: "RESUME", resumeToken, lastSeq: seen.seq! });
+
+  assert.equal((await resumed.next("RESUMED")).role, "listener");
+  assert.equal((await resumed.next("PRESENCE")).hostOnline, true);
+  const snapshot = await resumed.next("STATE_UPDATE");
+  assert.equal(snapshot.snapshot, true);
+  assert.equal(snapshot.payload.positionSec, 42);
+});
+
+test("a listener that is up to date gets no replay", async (t) => {
+  const { sessionId, host, listener, resumeToken, connect } = await startSession(t);
+  await host.send({ type: "STATE_UPDATE", sessionId, payload: paused(10) });
+  const seen = await listener.next("STATE_UPDATE");
+
+  listener.socket.terminate();
+  const resumed = connect();
+  await resumed.send({ type: "RESUME", resumeToken, lastSeq: seen.seq! });
+  await resumed.next("RESUMED");
+
+  // Anything sent after RESUMED would have arrived by the time a round trip completes
+  await resumed.send({ type: "TIME_PING", clientSendMs: Date.now() });
+  await resumed.next("TIME_PONG");
+  assert.deepEqual(resumed.received, []);
+});
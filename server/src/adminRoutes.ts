@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import { Router, Request, Response, NextFunction } from "express";
+import { WebSocketRelay } from "./websocket";
+import { SessionRegistry } from "./sessionRegistry";
+import { ListenerSyncWorker } from "./syncWorker";
+import { SessionHistory } from "./sessionHistory";
+
+const MAX_REASON_LENGTH = 200;
+
+function parseReason(reason: unknown, fallback: string): string {
+  return typeof reason === "string" && reason.trim() ? reason.trim().slice(0, MAX_REASON_LENGTH) : fallback;
+}
+
+/**
+ * Admin routes for moderating sessions
+ * Every request must send `Authorization: Bearer <ADMIN_TOKEN>`.
+ */
+export function createAdminRoutes(
+  wsRelay: WebSocketRelay,
+  sessionRegistry: SessionRegistry,
+  syncWorker: ListenerSyncWorker,
+  sessionHistory: SessionHistory,
+  adminToken: string
+): Router {
+  const router = Router();
+  const expectedToken = crypto.createHash("sha256").update(adminToken).digest();
+
+  router.use("/admin", (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization ?? "";
+    const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+    // Compare digests so the check doesn't leak the token length or prefix
+    const actualToken = crypto.createHash("sha256").update(token).digest();
+    if (!token || !crypto.timingSafeEqual(expectedToken, actualToken)) {
+      return res.status(401).json({ error: "Admin token required" });
+    }
+    next();
+  });
+
+  /**
+   * GET /admin/sessions
+   * List sessions with their live client counts
+   */
+  router.get("/admin/sessions", (req: Request, res: Response) => {
+    const records = sessionRegistry.list();
+    const sessions = records.map((record) => {
+      const clients = wsRelay.getSessionClients(record.sessionId);
+      return {
+        sessionId: record.sessionId,
+        name: record.name,
+        joinCode: record.joinCode,
+        createdAt: record.createdAt,
+        clientCount: clients.length,
+        hostOnline: clients.some((client) => client.role === "host" && !client.suspended),
+        headlessListenerCount: syncWorker.getSessionListeners(record.sessionId).length,
+      };
+    });
+
+    res.json({ sessions, activeSessionCount: wsRelay.getActiveSessionCount() });
+  });
+
+  /**
+   * GET /admin/sessions/:id
+   * Session details with its clients (roles, listenerIds, connect times) and headless listeners
+   */
+  router.get("/admin/sessions/:id", (req: Request, res: Response) => {
+    const record = sessionRegistry.get(req.params.id);
+    const clients = wsRelay.getSessionClients(req.params.id);
+
+    if (!record && clients.length === 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({
+      sessionId: req.params.id,
+      name: record?.name ?? null,
+      joinCode: record?.joinCode ?? null,
+      createdAt: record?.createdAt ?? null,
+      clients,
+      headlessListeners: syncWorker.getSessionListeners(req.params.id),
+      nowPlaying: wsRelay.getNowPlaying(req.params.id),
+    });
+  });
+
+  /**
+   * DELETE /admin/sessions/:id
+   * Close a session: disconnect all clients, stop headless sync and delete it so it can't be rejoined
+   * Optional body: { reason } shown to the disconnected clients. Its history is kept unless ?purgeHistory=true.
+   */
+  router.delete("/admin/sessions/:id", async (req: Request, res: Response) => {
+    const sessionId = req.params.id;
+    const reason = parseReason(req.body?.reason, "Session closed by an administrator");
+
+    let deleted: boolean;
+    try {
+      // Deleted first so a failed write leaves the session untouched
+      deleted = await sessionRegistry.delete(sessionId);
+    } catch (error: any) {
+      console.error("Error deleting session:", error);
+      return res.status(503).json({ error: "Failed to delete session", message: error.message });
+    }
+
+    const disconnected = wsRelay.closeSession(sessionId, reason);
+    const headlessStopped = syncWorker.unregisterSession(sessionId);
+    const historyDeleted = req.query.purgeHistory === "true" && sessionHistory.delete(sessionId);
+
+    if (!deleted && !historyDeleted && disconnected === 0 && headlessStopped === 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({ success: true, sessionId, disconnected, headlessStopped, historyDeleted });
+  });
+
+  /**
+   * POST /admin/sessions/:id/kick
+   * Remove one member (body: { clientId } for a connected client or { listenerId } for a headless listener, reason?)
+   */
+  router.post("/admin/sessions/:id/kick", (req: Request, res: Response) => {
+    const sessionId = req.params.id;
+    const { clientId, listenerId } = req.body ?? {};
+    const reason = parseReason(req.body?.reason, "Removed by an administrator");
+
+    if (typeof clientId === "string") {
+      if (!wsRelay.kickClient(sessionId, clientId, reason)) {
+        return res.status(404).json({ error: "Client not found in session" });
+      }
+      return res.json({ success: true, sessionId, clientId });
+    }
+
+    if (typeof listenerId === "string") {
+      if (syncWorker.getStatus(listenerId)?.sessionId !== sessionId || !syncWorker.unregister(listenerId)) {
+        return res.status(404).json({ error: "Headless listener not found in session" });
+      }
+      return res.json({ success: true, sessionId, listenerId });
+    }
+
+    res.status(400).json({ error: "clientId or listenerId is required" });
+  });
+
+  return router;
+}
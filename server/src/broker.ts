@@ -0,0 +1,93 @@
+import { WsMessage, MemberInfo } from "./types";
+
+/**
+ * Session message published to every relay instance
+ */
+export interface BrokerEnvelope {
+  origin: string; // instance id of the publishing relay (it has already delivered locally)
+  sessionId: string;
+  message: WsMessage;
+  audience: "all" | "listeners";
+  excludeClientId?: string;
+}
+
+/**
+ * Session member as known to all relay instances
+ */
+export interface BrokerMember extends MemberInfo {
+  instanceId: string; // relay instance holding the member's socket
+}
+
+export type BrokerHandler = (envelope: BrokerEnvelope) => void;
+
+/**
+ * Pub/sub and shared presence for relay instances
+ * Each instance subscribes to the sessions it has local members in and delivers to its own sockets.
+ */
+export interface SessionBroker {
+  publish(envelope: BrokerEnvelope): Promise<void>;
+  subscribe(sessionId: string, handler: BrokerHandler): Promise<void>;
+  unsubscribe(sessionId: string, handler: BrokerHandler): Promise<void>;
+  setMember(sessionId: string, member: BrokerMember): Promise<void>;
+  removeMember(sessionId: string, clientId: string): Promise<void>;
+  getMembers(sessionId: string): Promise<BrokerMember[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Process-local broker (single instance, or several relays in one process)
+ */
+export class InMemoryBroker implements SessionBroker {
+  private handlers: Map<string, Set<BrokerHandler>> = new Map();
+  private members: Map<string, Map<string, BrokerMember>> = new Map();
+
+  public async publish(envelope: BrokerEnvelope): Promise<void> {
+    const handlers = this.handlers.get(envelope.sessionId);
+    if (!handlers) return;
+
+    // Deliver asynchronously like a real broker would
+    for (const handler of [...handlers]) {
+      setImmediate(() => handler(envelope));
+    }
+  }
+
+  public async subscribe(sessionId: string, handler: BrokerHandler): Promise<void> {
+    if (!this.handlers.has(sessionId)) {
+      this.handlers.set(sessionId, new Set());
+    }
+    this.handlers.get(sessionId)!.add(handler);
+  }
+
+  public async unsubscribe(sessionId: string, handler: BrokerHandler): Promise<void> {
+    const handlers = this.handlers.get(sessionId);
+    if (!handlers) return;
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.handlers.delete(sessionId);
+    }
+  }
+
+  public async setMember(sessionId: string, member: BrokerMember): Promise<void> {
+    if (!this.members.has(sessionId)) {
+      this.members.set(sessionId, new Map());
+    }
+    this.members.get(sessionId)!.set(member.clientId, member);
+  }
+
+  public async removeMember(sessionId: string, clientId: string): Promise<void> {
+    const members = this.members.get(sessionId);
+    if (!members) return;
+    members.delete(clientId);
+    if (members.size === 0) {
+      this.members.delete(sessionId);
+    }
+  }
+
+  public async getMembers(sessionId: string): Promise<BrokerMember[]> {
+    return [...(this.members.get(sessionId)?.values() ?? [])];
+  }
+
+  public async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
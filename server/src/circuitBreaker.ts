@@ -0,0 +1,79 @@
+export type CircuitStatus = "closed" | "open" | "half_open";
+
+/**
+ * Circuit breaker state as reported to callers
+ */
+export interface CircuitState {
+  status: CircuitStatus;
+  consecutiveFailures: number;
+  retryAtMs: number | null; // when an open circuit lets the next trial request through
+}
+
+/**
+ * Consecutive-failure circuit breaker
+ * Opens after `failureThreshold` failures in a row and rejects requests for `openMs`.
+ * Then lets a single trial request through (half open): success closes it, failure opens it again.
+ * A failure can also carry its own wait (e.g. Retry-After), which opens the circuit for that long.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private openMs: number;
+  private status: CircuitStatus = "closed";
+  private consecutiveFailures = 0;
+  private openUntilMs = 0;
+  private trialInFlight = false;
+
+  constructor(failureThreshold: number, openMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.openMs = openMs;
+  }
+
+  /**
+   * Check whether a request may go out
+   * Every allowed request must be followed by recordSuccess() or recordFailure().
+   */
+  public tryAcquire(): boolean {
+    if (this.status === "open" && Date.now() >= this.openUntilMs) {
+      this.status = "half_open";
+    }
+
+    if (this.status === "closed") {
+      return true;
+    }
+    if (this.status === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.status = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed request
+   * Returns true when this failure opened the circuit.
+   */
+  public recordFailure(waitMs: number | null = null): boolean {
+    this.consecutiveFailures++;
+    const wasOpen = this.status === "open";
+    if (waitMs !== null || this.status === "half_open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.status = "open";
+      this.openUntilMs = Math.max(this.openUntilMs, Date.now() + (waitMs ?? this.openMs));
+    }
+    this.trialInFlight = false;
+    return !wasOpen && this.status === "open";
+  }
+
+  public getState(): CircuitState {
+    const retryAtMs = this.status === "open" ? this.openUntilMs : null;
+    return {
+      status: this.status === "open" && retryAtMs !== null && Date.now() >= retryAtMs ? "half_open" : this.status,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAtMs,
+    };
+  }
+}
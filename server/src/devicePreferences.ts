@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Spotify device a listener wants playback on when nothing is active
+ */
+export interface PreferredDevice {
+  deviceId: string;
+  deviceName: string;
+  updatedAt: number; // timestamp in milliseconds
+}
+
+/**
+ * Per-listener preferred Spotify devices
+ * Persisted to a JSON file when a path is given.
+ */
+export class DevicePreferences {
+  private filePath: string | null;
+  private devices: Map<string, PreferredDevice> = new Map(); // keyed by listenerId
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  public get(listenerId: string): PreferredDevice | null {
+    return this.devices.get(listenerId) ?? null;
+  }
+
+  public set(listenerId: string, device: PreferredDevice): void {
+    this.devices.set(listenerId, device);
+    this.save();
+  }
+
+  /**
+   * Forget a listener's preferred device
+   * Returns false if none was set.
+   */
+  public delete(listenerId: string): boolean {
+    if (!this.devices.delete(listenerId)) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, PreferredDevice>;
+      for (const [listenerId, device] of Object.entries(raw)) {
+        this.devices.set(listenerId, device);
+      }
+      console.log(`[DevicePreferences] Loaded ${this.devices.size} preferred device(s) from ${this.filePath}`);
+    } catch (error: any) {
+      console.error("[DevicePreferences] Failed to read preferences file:", error.message);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.devices), null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error: any) {
+      console.error("[DevicePreferences] Failed to write preferences file:", error.message);
+    }
+  }
+}
@@ -5,6 +5,18 @@ import cors from "cors";
 import { WebSocketRelay } from "./websocket";
 import { SpotifyClient } from "./spotify";
 import { createRoutes } from "./routes";
+import { createSessionRoutes } from "./sessionRoutes";
+import { createAdminRoutes } from "./adminRoutes";
+import { TokenStore, MemoryTokenStore, FileTokenStore } from "./tokenStore";
+import { MatchCache, DEFAULT_MATCH_CACHE_TTL_MS } from "./matchCache";
+import { TrackResolver } from "./trackResolver";
+import { MatchOverrides } from "./matchOverrides";
+import { ListenerSyncWorker } from "./syncWorker";
+import { SessionRegistry } from "./sessionRegistry";
+import { DevicePreferences } from "./devicePreferences";
+import { SessionHistory } from "./sessionHistory";
+import { SessionBroker, InMemoryBroker } from "./broker";
+import { RedisBroker, DEFAULT_REDIS_KEY_PREFIX } from "./redisBroker";
 
 // Load environment variables
 dotenv.config();
@@ -28,6 +40,64 @@ const PORT = parseInt(process.env.PORT || "3000", 10);
 const SPOTIFY_CLIENT_ID = process.env.SPOTIFY_CLIENT_ID!;
 const SPOTIFY_CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET!;
 const SPOTIFY_REDIRECT_URI = process.env.SPOTIFY_REDIRECT_URI!;
+const MATCH_CONFIDENCE_THRESHOLD = process.env.MATCH_CONFIDENCE_THRESHOLD
+  ? parseFloat(process.env.MATCH_CONFIDENCE_THRESHOLD)
+  : undefined;
+const MATCH_CACHE_PATH = process.env.MATCH_CACHE_PATH || "./data/match-cache.json";
+const MATCH_CACHE_TTL_MS = process.env.MATCH_CACHE_TTL_HOURS
+  ? parseFloat(process.env.MATCH_CACHE_TTL_HOURS) * 60 * 60 * 1000
+  : DEFAULT_MATCH_CACHE_TTL_MS;
+const MATCH_OVERRIDES_PATH = process.env.MATCH_OVERRIDES_PATH || "./data/match-overrides.json";
+const SESSIONS_PATH = process.env.SESSIONS_PATH || "./data/sessions.json";
+const DEVICE_PREFERENCES_PATH = process.env.DEVICE_PREFERENCES_PATH || "./data/device-preferences.json";
+const HISTORY_DIR = process.env.HISTORY_DIR || "./data/history";
+const HOST_LOST_GRACE_MS = process.env.HOST_LOST_GRACE_MS ? parseInt(process.env.HOST_LOST_GRACE_MS, 10) : undefined;
+const WS_HEARTBEAT_INTERVAL_MS = process.env.WS_HEARTBEAT_INTERVAL_MS
+  ? parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS, 10)
+  : undefined;
+const WS_HEARTBEAT_TIMEOUT_MS = process.env.WS_HEARTBEAT_TIMEOUT_MS
+  ? parseInt(process.env.WS_HEARTBEAT_TIMEOUT_MS, 10)
+  : undefined;
+const RESUME_GRACE_MS = process.env.RESUME_GRACE_MS ? parseInt(process.env.RESUME_GRACE_MS, 10) : undefined;
+const STATE_COALESCE_WINDOW_MS = process.env.STATE_COALESCE_WINDOW_MS
+  ? parseInt(process.env.STATE_COALESCE_WINDOW_MS, 10)
+  : undefined;
+const WS_RATE_LIMIT_PER_SEC = process.env.WS_RATE_LIMIT_PER_SEC
+  ? parseFloat(process.env.WS_RATE_LIMIT_PER_SEC)
+  : undefined;
+const WS_RATE_LIMIT_BURST = process.env.WS_RATE_LIMIT_BURST ? parseInt(process.env.WS_RATE_LIMIT_BURST, 10) : undefined;
+const TOKEN_STORE = process.env.TOKEN_STORE || "memory";
+const TOKEN_STORE_PATH = process.env.TOKEN_STORE_PATH || "./data/tokens.json";
+const TOKEN_ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY;
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const BROKER = process.env.BROKER || "memory";
+const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
+const REDIS_KEY_PREFIX = process.env.REDIS_KEY_PREFIX || DEFAULT_REDIS_KEY_PREFIX;
+
+if (TOKEN_STORE !== "memory" && TOKEN_STORE !== "file") {
+  console.error(`Invalid TOKEN_STORE "${TOKEN_STORE}": must be "memory" or "file"`);
+  process.exit(1);
+}
+
+if (BROKER !== "memory" && BROKER !== "redis") {
+  console.error(`Invalid BROKER "${BROKER}": must be "memory" or "redis"`);
+  process.exit(1);
+}
+
+if (
+  MATCH_CONFIDENCE_THRESHOLD !== undefined &&
+  !(MATCH_CONFIDENCE_THRESHOLD >= 0 && MATCH_CONFIDENCE_THRESHOLD <= 1)
+) {
+  console.error(
+    `Invalid MATCH_CONFIDENCE_THRESHOLD "${process.env.MATCH_CONFIDENCE_THRESHOLD}": must be a number between 0 and 1`
+  );
+  process.exit(1);
+}
+
+if (TOKEN_STORE === "file" && !TOKEN_ENCRYPTION_KEY) {
+  console.error("TOKEN_ENCRYPTION_KEY is required when TOKEN_STORE=file");
+  process.exit(1);
+}
 
 // Initialize Express app
 const app = express();
@@ -53,41 +123,95 @@ app.use(express.json());
 // Create HTTP server
 const server = createServer(app);
 
+// Initialize token store
+const tokenStore: TokenStore =
+  TOKEN_STORE === "file"
+    ? new FileTokenStore(TOKEN_STORE_PATH, TOKEN_ENCRYPTION_KEY!)
+    : new MemoryTokenStore();
+
 // Initialize Spotify client
 const spotifyClient = new SpotifyClient(
   SPOTIFY_CLIENT_ID,
   SPOTIFY_CLIENT_SECRET,
-  SPOTIFY_REDIRECT_URI
+  SPOTIFY_REDIRECT_URI,
+  tokenStore,
+  new DevicePreferences(DEVICE_PREFERENCES_PATH)
 );
 
+// Initialize shared Apple → Spotify match cache, manual overrides and resolver
+const matchCache = new MatchCache(MATCH_CACHE_PATH, MATCH_CACHE_TTL_MS);
+const matchOverrides = new MatchOverrides(MATCH_OVERRIDES_PATH);
+const trackResolver = new TrackResolver(spotifyClient, matchCache, matchOverrides, MATCH_CONFIDENCE_THRESHOLD);
+
+// Initialize session registry (ownership and join codes)
+const sessionRegistry = new SessionRegistry(SESSIONS_PATH);
+
+// Initialize server-driven sync for listeners without the extension
+const syncWorker = new ListenerSyncWorker(spotifyClient, trackResolver);
+
+// Initialize session history (tracklist per session, kept after it ends)
+const sessionHistory = new SessionHistory(HISTORY_DIR);
+
+// Initialize session broker (fan-out between relay instances)
+const broker: SessionBroker = BROKER === "redis" ? new RedisBroker(REDIS_URL, REDIS_KEY_PREFIX) : new InMemoryBroker();
+
 // Initialize WebSocket relay
-const wsRelay = new WebSocketRelay(server);
+const wsRelay = new WebSocketRelay(server, sessionRegistry, trackResolver, syncWorker, {
+  hostLostGraceMs: HOST_LOST_GRACE_MS,
+  heartbeatIntervalMs: WS_HEARTBEAT_INTERVAL_MS,
+  heartbeatTimeoutMs: WS_HEARTBEAT_TIMEOUT_MS,
+  resumeGraceMs: RESUME_GRACE_MS,
+  stateCoalesceWindowMs: STATE_COALESCE_WINDOW_MS,
+  maxMessagesPerSecond: WS_RATE_LIMIT_PER_SEC,
+  messageBurst: WS_RATE_LIMIT_BURST,
+  broker,
+  history: sessionHistory,
+});
+
+// Re-resolve the current track in affected sessions when a match is corrected
+matchOverrides.onChange((appleTrackId) => {
+  wsRelay.refreshTrackMatch(appleTrackId);
+});
 
 // Register routes
-const routes = createRoutes(spotifyClient);
+const routes = createRoutes(
+  spotifyClient,
+  trackResolver,
+  matchCache,
+  matchOverrides,
+  syncWorker,
+  sessionRegistry,
+  sessionHistory
+);
 app.use("/", routes);
+app.use("/", createSessionRoutes(wsRelay, sessionRegistry, sessionHistory));
+// Admin API is only mounted when a token is configured
+if (ADMIN_TOKEN) {
+  app.use("/", createAdminRoutes(wsRelay, sessionRegistry, syncWorker, sessionHistory, ADMIN_TOKEN));
+}
 
 // Start server
 server.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
   console.log(`WebSocket server ready on ws://localhost:${PORT}`);
   console.log(`Spotify OAuth redirect URI: ${SPOTIFY_REDIRECT_URI}`);
+  console.log(`Token store: ${TOKEN_STORE}${TOKEN_STORE === "file" ? ` (${TOKEN_STORE_PATH})` : ""}`);
+  console.log(`Session broker: ${BROKER}${BROKER === "redis" ? ` (${new URL(REDIS_URL).host})` : ""}`);
+  console.log(`Admin API: ${ADMIN_TOKEN ? "enabled" : "disabled (set ADMIN_TOKEN to enable)"}`);
 });
 
 // Graceful shutdown
-process.on("SIGTERM", () => {
-  console.log("SIGTERM received, shutting down gracefully");
-  server.close(() => {
-    console.log("Server closed");
-    process.exit(0);
+async function shutdown(signal: string): Promise<void> {
+  console.log(`${signal} received, shutting down gracefully`);
+  // Leave the broker first so other instances drop our members now rather than when our presence expires
+  await broker.close().catch((error) => {
+    console.error("Failed to close session broker:", error.message);
   });
-});
-
-process.on("SIGINT", () => {
-  console.log("SIGINT received, shutting down gracefully");
   server.close(() => {
     console.log("Server closed");
     process.exit(0);
   });
-});
+}
 
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
@@ -0,0 +1,141 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Resolved Apple → Spotify match
+ */
+export interface CachedMatch {
+  spotifyUri: string;
+  confidence: number;
+  method: "isrc" | "search" | "manual";
+  spotifyTitle: string;
+  spotifyArtists: string[];
+  cachedAt: number; // timestamp in milliseconds
+}
+
+export const DEFAULT_MATCH_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+/**
+ * Match cache shared by all listeners, keyed by Apple track id and ISRC
+ * Persisted to a JSON file (when a path is given) so restarts keep their matches.
+ */
+export class MatchCache {
+  private filePath: string | null;
+  private ttlMs: number;
+  private entries: Map<string, CachedMatch> = new Map();
+
+  constructor(filePath: string | null, ttlMs: number = DEFAULT_MATCH_CACHE_TTL_MS) {
+    this.filePath = filePath;
+    this.ttlMs = ttlMs;
+    this.load();
+  }
+
+  /**
+   * Look up a match by Apple track id, falling back to ISRC
+   */
+  public get(appleTrackId: string | null | undefined, isrc?: string | null): CachedMatch | null {
+    const keys = this.keysFor(appleTrackId, isrc);
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+
+      if (this.isExpired(entry)) {
+        this.entries.delete(key);
+        continue;
+      }
+      return entry;
+    }
+    return null;
+  }
+
+  /**
+   * Store a match under the Apple track id and ISRC (when present)
+   */
+  public set(appleTrackId: string | null | undefined, isrc: string | null | undefined, match: CachedMatch): void {
+    const keys = this.keysFor(appleTrackId, isrc);
+    if (keys.length === 0) return;
+
+    for (const key of keys) {
+      this.entries.set(key, match);
+    }
+    this.save();
+  }
+
+  /**
+   * Remove the cached match for an Apple track id
+   * Returns false if nothing was cached.
+   */
+  public invalidate(appleTrackId: string): boolean {
+    const key = `apple:${appleTrackId}`;
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    // Also drop the ISRC key pointing at the same match
+    for (const [otherKey, other] of this.entries) {
+      if (other.spotifyUri === entry.spotifyUri && other.cachedAt === entry.cachedAt) {
+        this.entries.delete(otherKey);
+      }
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Remove all cached matches
+   */
+  public clear(): void {
+    this.entries.clear();
+    this.save();
+  }
+
+  /**
+   * Number of cached keys (for debugging/monitoring)
+   */
+  public size(): number {
+    return this.entries.size;
+  }
+
+  private keysFor(appleTrackId: string | null | undefined, isrc: string | null | undefined): string[] {
+    const keys: string[] = [];
+    if (appleTrackId) keys.push(`apple:${appleTrackId}`);
+    if (isrc) keys.push(`isrc:${isrc.toUpperCase()}`);
+    return keys;
+  }
+
+  private isExpired(entry: CachedMatch): boolean {
+    return Date.now() - entry.cachedAt > this.ttlMs;
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, CachedMatch>;
+      for (const [key, entry] of Object.entries(raw)) {
+        if (!this.isExpired(entry)) {
+          this.entries.set(key, entry);
+        }
+      }
+      console.log(`[MatchCache] Loaded ${this.entries.size} cached match(es) from ${this.filePath}`);
+    } catch (error: any) {
+      console.error("[MatchCache] Failed to read cache file:", error.message);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.entries), null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error: any) {
+      console.error("[MatchCache] Failed to write cache file:", error.message);
+    }
+  }
+}
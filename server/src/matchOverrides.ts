@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Manually chosen Spotify track for an Apple track
+ */
+export interface MatchOverride {
+  appleTrackId: string;
+  spotifyUri: string;
+  spotifyTitle: string;
+  spotifyArtists: string[];
+  createdBy: string | null; // session whose owner set the override, if any
+  createdAt: number; // timestamp in milliseconds
+}
+
+type OverrideChangeListener = (appleTrackId: string, override: MatchOverride | null) => void;
+
+/**
+ * Manual Apple → Spotify match overrides
+ * Consulted before the match cache or any search. Persisted to a JSON file when a path is given.
+ */
+export class MatchOverrides {
+  private filePath: string | null;
+  private overrides: Map<string, MatchOverride> = new Map();
+  private changeListeners: OverrideChangeListener[] = [];
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  public get(appleTrackId: string | null | undefined): MatchOverride | null {
+    if (!appleTrackId) return null;
+    return this.overrides.get(appleTrackId) ?? null;
+  }
+
+  public set(override: MatchOverride): void {
+    this.overrides.set(override.appleTrackId, override);
+    this.save();
+    this.notify(override.appleTrackId, override);
+  }
+
+  /**
+   * Remove an override
+   * Returns false if none existed.
+   */
+  public delete(appleTrackId: string): boolean {
+    if (!this.overrides.delete(appleTrackId)) {
+      return false;
+    }
+    this.save();
+    this.notify(appleTrackId, null);
+    return true;
+  }
+
+  /**
+   * Register a callback for override changes (set or delete)
+   */
+  public onChange(listener: OverrideChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  private notify(appleTrackId: string, override: MatchOverride | null): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(appleTrackId, override);
+      } catch (error) {
+        console.error("[MatchOverrides] Change listener failed:", error);
+      }
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, MatchOverride>;
+      for (const [appleTrackId, override] of Object.entries(raw)) {
+        this.overrides.set(appleTrackId, override);
+      }
+      console.log(`[MatchOverrides] Loaded ${this.overrides.size} override(s) from ${this.filePath}`);
+    } catch (error: any) {
+      console.error("[MatchOverrides] Failed to read overrides file:", error.message);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.overrides), null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error: any) {
+      console.error("[MatchOverrides] Failed to write overrides file:", error.message);
+    }
+  }
+}
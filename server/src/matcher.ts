@@ -0,0 +1,193 @@
+/**
+ * Track matching between Apple Music metadata and Spotify search results
+ */
+
+/**
+ * Track metadata used to look up a Spotify track
+ */
+export interface TrackQuery {
+  title: string;
+  artist?: string | null;
+  album?: string | null;
+  durationSec?: number | null;
+  isrc?: string | null;
+}
+
+/**
+ * Spotify search result reduced to the fields used for scoring
+ */
+export interface SpotifyTrackCandidate {
+  uri: string;
+  name: string;
+  artists: string[];
+  album: string;
+  durationMs: number;
+}
+
+/**
+ * Best candidate for a query along with its confidence (0..1)
+ */
+export interface MatchResult {
+  uri: string;
+  confidence: number;
+  candidate: SpotifyTrackCandidate;
+  method: "isrc" | "search";
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+
+// Relative weight of each field; fields missing from the query are skipped
+const WEIGHTS = {
+  title: 0.5,
+  artist: 0.3,
+  album: 0.1,
+  duration: 0.1,
+};
+
+// Durations within this window score 1, beyond DURATION_ZERO_SEC they score 0
+const DURATION_EXACT_SEC = 2;
+const DURATION_ZERO_SEC = 30;
+
+// Versions that are almost never what the host is playing unless asked for
+const UNWANTED_VERSION_PATTERN = /\b(karaoke|instrumental|tribute|cover|made famous by|originally performed)\b/;
+const UNWANTED_VERSION_PENALTY = 0.5;
+
+// Parenthesized/bracketed or dash-separated suffixes that don't identify the song
+const NOISE_SUFFIX_PATTERN =
+  /\b(feat|ft|featuring|with|remaster|remastered|live|edit|radio edit|single version|album version|version|mono|stereo|explicit|clean|bonus track|deluxe)\b/;
+
+/**
+ * Strip diacritics, lowercase and collapse punctuation/whitespace
+ */
+function basicNormalize(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Normalize a track title for comparison
+ * Removes "(feat. X)", "[Remastered 2011]", "- Live", "- Radio Edit" and similar suffixes.
+ */
+export function normalizeTitle(title: string): string {
+  let result = title.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+  // Drop bracketed parts that only describe the version
+  result = result.replace(/[([][^)\]]*[)\]]/g, (part) => (NOISE_SUFFIX_PATTERN.test(part) ? " " : part));
+
+  // Drop " - Remastered 2011" style suffixes
+  const dashIndex = result.indexOf(" - ");
+  if (dashIndex > 0 && NOISE_SUFFIX_PATTERN.test(result.slice(dashIndex))) {
+    result = result.slice(0, dashIndex);
+  }
+
+  // Drop trailing "feat. X" without brackets
+  result = result.replace(/\s(feat\.?|ft\.?|featuring)\s.*$/, "");
+
+  return basicNormalize(result);
+}
+
+/**
+ * Normalize an artist string, keeping only the primary artist
+ */
+export function normalizeArtist(artist: string): string {
+  const primary = artist.split(/,|\s(?:feat\.?|ft\.?|featuring)\s/i)[0];
+  return basicNormalize(primary);
+}
+
+/**
+ * Token overlap similarity (Dice coefficient) between two normalized strings
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const tokensA = a.split(" ");
+  const tokensB = new Set(b.split(" "));
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+
+  return (2 * shared) / (tokensA.length + tokensB.size);
+}
+
+function durationScore(querySec: number, candidateMs: number): number {
+  const diffSec = Math.abs(querySec - candidateMs / 1000);
+  if (diffSec <= DURATION_EXACT_SEC) return 1;
+  if (diffSec >= DURATION_ZERO_SEC) return 0;
+  return 1 - (diffSec - DURATION_EXACT_SEC) / (DURATION_ZERO_SEC - DURATION_EXACT_SEC);
+}
+
+/**
+ * Score a Spotify candidate against the query (0..1)
+ */
+export function scoreCandidate(query: TrackQuery, candidate: SpotifyTrackCandidate): number {
+  let total = 0;
+  let weightSum = 0;
+
+  total += WEIGHTS.title * similarity(normalizeTitle(query.title), normalizeTitle(candidate.name));
+  weightSum += WEIGHTS.title;
+
+  if (query.artist) {
+    const queryArtist = normalizeArtist(query.artist);
+    // Any credited artist can match (Apple and Spotify credit collaborators differently)
+    const candidateArtists = [...candidate.artists, candidate.artists.join(" ")];
+    const best = Math.max(0, ...candidateArtists.map((artist) => similarity(queryArtist, basicNormalize(artist))));
+    total += WEIGHTS.artist * best;
+    weightSum += WEIGHTS.artist;
+  }
+
+  if (query.album) {
+    total += WEIGHTS.album * similarity(normalizeTitle(query.album), normalizeTitle(candidate.album));
+    weightSum += WEIGHTS.album;
+  }
+
+  if (query.durationSec) {
+    total += WEIGHTS.duration * durationScore(query.durationSec, candidate.durationMs);
+    weightSum += WEIGHTS.duration;
+  }
+
+  let score = total / weightSum;
+
+  // Penalize karaoke/cover versions unless the Apple metadata says so too
+  const candidateText = basicNormalize(`${candidate.name} ${candidate.album} ${candidate.artists.join(" ")}`);
+  const queryText = basicNormalize(`${query.title} ${query.album ?? ""} ${query.artist ?? ""}`);
+  if (UNWANTED_VERSION_PATTERN.test(candidateText) && !UNWANTED_VERSION_PATTERN.test(queryText)) {
+    score *= UNWANTED_VERSION_PENALTY;
+  }
+
+  return score;
+}
+
+/**
+ * Pick the highest scoring candidate
+ */
+export function pickBestMatch(query: TrackQuery, candidates: SpotifyTrackCandidate[]): MatchResult | null {
+  let best: MatchResult | null = null;
+
+  for (const candidate of candidates) {
+    const confidence = scoreCandidate(query, candidate);
+    if (!best || confidence > best.confidence) {
+      best = { uri: candidate.uri, confidence, candidate, method: "search" };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Build a Spotify search query string using field filters
+ */
+export function buildSearchQuery(query: TrackQuery): string {
+  const parts = [`track:${normalizeTitle(query.title)}`];
+  if (query.artist) {
+    parts.push(`artist:${normalizeArtist(query.artist)}`);
+  }
+  return parts.join(" ");
+}
@@ -0,0 +1,175 @@
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4)
+ * Metrics register themselves on the shared registry, which /metrics renders.
+ */
+
+export type Labels = Record<string, string | number>;
+
+export const DEFAULT_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface Metric {
+  render(): string;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labelNames: string[], labels: Labels, extra: string = ""): string {
+  const parts = labelNames.map((name) => `${name}="${escapeLabelValue(String(labels[name] ?? ""))}"`);
+  if (extra) parts.push(extra);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? "")));
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Base for metrics holding one value per label combination
+ */
+abstract class LabeledMetric implements Metric {
+  protected name: string;
+  protected help: string;
+  protected labelNames: string[];
+  protected values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  protected abstract readonly type: "counter" | "gauge";
+
+  protected add(labels: Labels, amount: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    const series = this.values.get(key);
+    if (series) {
+      series.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  public render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    // Unlabeled metrics always expose a sample, even before the first update
+    if (this.labelNames.length === 0 && this.values.size === 0) {
+      lines.push(`${this.name} 0`);
+    }
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends LabeledMetric {
+  protected readonly type = "counter";
+
+  public inc(labels: Labels = {}, amount: number = 1): void {
+    this.add(labels, amount);
+  }
+}
+
+export class Gauge extends LabeledMetric {
+  protected readonly type = "gauge";
+
+  public set(labels: Labels, value: number): void {
+    this.values.set(seriesKey(this.labelNames, labels), { labels, value });
+  }
+}
+
+export class Histogram implements Metric {
+  private name: string;
+  private help: string;
+  private labelNames: string[];
+  private buckets: number[];
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[] = [], buckets: number[] = DEFAULT_DURATION_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        series.counts[i]++;
+      }
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the elapsed seconds
+   */
+  public startTimer(): (labels: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (labels) => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  public render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bucket, i) => {
+        const bucketLabels = formatLabels(this.labelNames, labels, `le="${formatValue(bucket)}"`);
+        lines.push(`${this.name}_bucket${bucketLabels} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, 'le="+Inf"')} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${count}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Set of metrics rendered together
+ * Collectors run before each render to refresh gauges computed from live state.
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: (() => void)[] = [];
+
+  public register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  public addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  public render(): string {
+    for (const collector of this.collectors) {
+      try {
+        collector();
+      } catch (error: any) {
+        console.error("Metrics collector failed:", error.message);
+      }
+    }
+    return this.metrics.map((metric) => metric.render()).join("\n") + "\n";
+  }
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export const registry = new MetricsRegistry();
@@ -0,0 +1,74 @@
+/**
+ * Token bucket rate limiter
+ * Allows bursts up to `burst` and refills at `ratePerSecond`.
+ */
+export class RateLimiter {
+  private ratePerSecond: number;
+  private burst: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(ratePerSecond: number, burst: number = ratePerSecond) {
+    this.ratePerSecond = ratePerSecond;
+    this.burst = burst;
+    this.tokens = burst;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Take one token if available
+   * Returns false when the caller is over its rate.
+   */
+  public tryRemove(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * Token bucket per key (e.g. client address)
+ * Buckets idle long enough to have refilled completely are dropped, so the map doesn't grow without bound.
+ */
+export class KeyedRateLimiter {
+  private ratePerSecond: number;
+  private burst: number;
+  private limiters: Map<string, { limiter: RateLimiter; lastUsedAt: number }> = new Map();
+  private lastPrunedAt = Date.now();
+
+  constructor(ratePerSecond: number, burst: number = ratePerSecond) {
+    this.ratePerSecond = ratePerSecond;
+    this.burst = burst;
+  }
+
+  public tryRemove(key: string): boolean {
+    const now = Date.now();
+    this.prune(now);
+
+    let entry = this.limiters.get(key);
+    if (!entry) {
+      entry = { limiter: new RateLimiter(this.ratePerSecond, this.burst), lastUsedAt: now };
+      this.limiters.set(key, entry);
+    }
+    entry.lastUsedAt = now;
+    return entry.limiter.tryRemove();
+  }
+
+  private prune(now: number): void {
+    const refillMs = (this.burst / this.ratePerSecond) * 1000;
+    if (now - this.lastPrunedAt < refillMs) return;
+
+    this.lastPrunedAt = now;
+    for (const [key, entry] of this.limiters) {
+      if (now - entry.lastUsedAt >= refillMs) {
+        this.limiters.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,465 @@
+import net from "net";
+import { SessionBroker, BrokerEnvelope, BrokerHandler, BrokerMember } from "./broker";
+
+export const DEFAULT_REDIS_KEY_PREFIX = "apple-spotify-sync:";
+
+const RECONNECT_MIN_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Presence lifetime: members count only while their instance keeps its heartbeat key alive
+const INSTANCE_TTL_MS = 30000;
+const INSTANCE_HEARTBEAT_INTERVAL_MS = 10000;
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+interface RedisConnectionOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  db?: number;
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: string[]): string {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    encoded += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return encoded;
+}
+
+/**
+ * Parse one RESP value starting at offset
+ * Returns null when the buffer doesn't hold the complete value yet.
+ */
+export function parseReply(buffer: Buffer, offset: number): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  if (type === "+") {
+    return { value: line, offset: next };
+  } else if (type === "-") {
+    return { value: new Error(line), offset: next };
+  } else if (type === ":") {
+    return { value: parseInt(line, 10), offset: next };
+  } else if (type === "$") {
+    const length = parseInt(line, 10);
+    if (length === -1) {
+      return { value: null, offset: next };
+    }
+    if (buffer.length < next + length + 2) {
+      return null;
+    }
+    return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+  } else if (type === "*") {
+    const count = parseInt(line, 10);
+    if (count === -1) {
+      return { value: null, offset: next };
+    }
+    const items: RespValue[] = [];
+    let position = next;
+    for (let i = 0; i < count; i++) {
+      const item = parseReply(buffer, position);
+      if (!item) {
+        return null;
+      }
+      items.push(item.value);
+      position = item.offset;
+    }
+    return { value: items, offset: position };
+  }
+
+  throw new Error(`Unexpected RESP reply type "${type}"`);
+}
+
+/**
+ * Single Redis connection speaking RESP, with reconnects
+ * Replies are matched to commands in order; pub/sub messages go to onPush.
+ */
+class RedisConnection {
+  private name: string;
+  private options: RedisConnectionOptions;
+  private onPush: ((push: RespValue[]) => void) | null;
+  private onReady: (() => void) | null;
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+  private ready = false;
+  private closing = false;
+  private reconnectDelayMs = RECONNECT_MIN_DELAY_MS;
+
+  constructor(
+    name: string,
+    options: RedisConnectionOptions,
+    onPush: ((push: RespValue[]) => void) | null = null,
+    onReady: (() => void) | null = null
+  ) {
+    this.name = name;
+    this.options = options;
+    this.onPush = onPush;
+    this.onReady = onReady;
+    this.open();
+  }
+
+  public isReady(): boolean {
+    return this.ready;
+  }
+
+  public command(args: string[]): Promise<RespValue> {
+    if (!this.ready) {
+      return Promise.reject(new Error(`Redis ${this.name} connection not ready`));
+    }
+    return this.send(args);
+  }
+
+  public close(): void {
+    this.closing = true;
+    this.socket?.end();
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.socket.destroyed) {
+        reject(new Error(`Redis ${this.name} connection closed`));
+        return;
+      }
+      this.pending.push({ resolve, reject });
+      this.socket.write(encodeCommand(args));
+    });
+  }
+
+  private open(): void {
+    const socket = net.createConnection({ host: this.options.host, port: this.options.port });
+    this.socket = socket;
+
+    socket.on("connect", () => {
+      this.handshake()
+        .then(() => {
+          this.ready = true;
+          this.reconnectDelayMs = RECONNECT_MIN_DELAY_MS;
+          console.log(`[RedisBroker] ${this.name} connection ready (${this.options.host}:${this.options.port})`);
+          this.onReady?.();
+        })
+        .catch((error) => {
+          console.error(`[RedisBroker] ${this.name} handshake failed:`, error.message);
+          socket.destroy();
+        });
+    });
+
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      try {
+        let offset = 0;
+        let reply = parseReply(this.buffer, offset);
+        while (reply) {
+          offset = reply.offset;
+          this.handleReply(reply.value);
+          reply = offset < this.buffer.length ? parseReply(this.buffer, offset) : null;
+        }
+        this.buffer = this.buffer.subarray(offset);
+      } catch (error: any) {
+        console.error(`[RedisBroker] ${this.name} protocol error:`, error.message);
+        socket.destroy();
+      }
+    });
+
+    socket.on("error", (error) => {
+      console.error(`[RedisBroker] ${this.name} connection error:`, error.message);
+    });
+
+    socket.on("close", () => {
+      this.ready = false;
+      this.buffer = Buffer.alloc(0);
+      const pending = this.pending;
+      this.pending = [];
+      for (const { reject } of pending) {
+        reject(new Error(`Redis ${this.name} connection closed`));
+      }
+
+      if (this.closing) {
+        return;
+      }
+      console.warn(`[RedisBroker] ${this.name} connection lost, reconnecting in ${this.reconnectDelayMs}ms`);
+      setTimeout(() => this.open(), this.reconnectDelayMs);
+      this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, RECONNECT_MAX_DELAY_MS);
+    });
+  }
+
+  private async handshake(): Promise<void> {
+    if (this.options.password) {
+      const auth = this.options.username
+        ? ["AUTH", this.options.username, this.options.password]
+        : ["AUTH", this.options.password];
+      const reply = await this.send(auth);
+      if (reply instanceof Error) throw reply;
+    }
+    if (this.options.db) {
+      const reply = await this.send(["SELECT", String(this.options.db)]);
+      if (reply instanceof Error) throw reply;
+    }
+  }
+
+  private handleReply(value: RespValue): void {
+    // Pub/sub messages arrive unsolicited on a subscribed connection
+    if (this.onPush && Array.isArray(value) && value[0] === "message") {
+      this.onPush(value);
+      return;
+    }
+
+    const pending = this.pending.shift();
+    if (!pending) {
+      return;
+    }
+    if (value instanceof Error) {
+      pending.reject(value);
+    } else {
+      pending.resolve(value);
+    }
+  }
+}
+
+/**
+ * Broker backed by a Redis-protocol server (Redis, Valkey, KeyDB, ...)
+ * Session fan-out uses PUBLISH/SUBSCRIBE on one channel per session; presence is a hash per session.
+ * Each instance refreshes a heartbeat key with a TTL; members of an instance whose key expired (crashed, killed)
+ * are pruned from the hash when it is read.
+ */
+export class RedisBroker implements SessionBroker {
+  private keyPrefix: string;
+  private commands: RedisConnection;
+  private subscriber: RedisConnection;
+  private handlers: Map<string, Set<BrokerHandler>> = new Map();
+  private localMembers: Map<string, Map<string, BrokerMember>> = new Map(); // members set through this broker
+  private heartbeatInterval: ReturnType<typeof setInterval>;
+
+  /**
+   * @param url redis://[[username]:password@]host[:port][/db]
+   */
+  constructor(url: string, keyPrefix: string = DEFAULT_REDIS_KEY_PREFIX) {
+    const parsed = new URL(url);
+    const options: RedisConnectionOptions = {
+      host: parsed.hostname || "localhost",
+      port: parsed.port ? parseInt(parsed.port, 10) : 6379,
+      username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+      db: parsed.pathname.length > 1 ? parseInt(parsed.pathname.slice(1), 10) : undefined,
+    };
+
+    this.keyPrefix = keyPrefix;
+    this.commands = new RedisConnection("commands", options, null, () => this.restoreMembers());
+    this.subscriber = new RedisConnection(
+      "subscriber",
+      options,
+      (push) => this.handleMessage(push),
+      () => this.resubscribe()
+    );
+
+    this.heartbeatInterval = setInterval(() => {
+      this.refreshHeartbeats().catch((error) => {
+        console.error("[RedisBroker] Failed to refresh instance heartbeat:", error.message);
+      });
+    }, INSTANCE_HEARTBEAT_INTERVAL_MS);
+    this.heartbeatInterval.unref();
+  }
+
+  public async publish(envelope: BrokerEnvelope): Promise<void> {
+    await this.run(["PUBLISH", this.channel(envelope.sessionId), JSON.stringify(envelope)]);
+  }
+
+  public async subscribe(sessionId: string, handler: BrokerHandler): Promise<void> {
+    let handlers = this.handlers.get(sessionId);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(sessionId, handlers);
+    }
+    handlers.add(handler);
+
+    // Not connected yet: resubscribe() picks it up once the connection is ready
+    if (handlers.size === 1 && this.subscriber.isReady()) {
+      await this.runOn(this.subscriber, ["SUBSCRIBE", this.channel(sessionId)]);
+    }
+  }
+
+  public async unsubscribe(sessionId: string, handler: BrokerHandler): Promise<void> {
+    const handlers = this.handlers.get(sessionId);
+    if (!handlers) return;
+    handlers.delete(handler);
+
+    if (handlers.size === 0) {
+      this.handlers.delete(sessionId);
+      if (this.subscriber.isReady()) {
+        await this.runOn(this.subscriber, ["UNSUBSCRIBE", this.channel(sessionId)]);
+      }
+    }
+  }
+
+  public async setMember(sessionId: string, member: BrokerMember): Promise<void> {
+    let members = this.localMembers.get(sessionId);
+    if (!members) {
+      members = new Map();
+      this.localMembers.set(sessionId, members);
+    }
+    members.set(member.clientId, member);
+
+    await this.run(["SET", this.instanceKey(member.instanceId), "1", "PX", String(INSTANCE_TTL_MS)]);
+    await this.run(["HSET", this.membersKey(sessionId), member.clientId, JSON.stringify(member)]);
+  }
+
+  public async removeMember(sessionId: string, clientId: string): Promise<void> {
+    const members = this.localMembers.get(sessionId);
+    members?.delete(clientId);
+    if (members?.size === 0) {
+      this.localMembers.delete(sessionId);
+    }
+
+    await this.run(["HDEL", this.membersKey(sessionId), clientId]);
+  }
+
+  public async getMembers(sessionId: string): Promise<BrokerMember[]> {
+    const reply = await this.run(["HGETALL", this.membersKey(sessionId)]);
+    if (!Array.isArray(reply)) {
+      return [];
+    }
+
+    // HGETALL replies with alternating field, value
+    const members: BrokerMember[] = [];
+    for (let i = 1; i < reply.length; i += 2) {
+      try {
+        members.push(JSON.parse(reply[i] as string));
+      } catch (error) {
+        console.warn(`[RedisBroker] Ignoring unreadable member entry in session ${sessionId}`);
+      }
+    }
+    if (members.length === 0) {
+      return members;
+    }
+
+    const instanceIds = [...new Set(members.map((member) => member.instanceId))];
+    const heartbeats = await this.run(["MGET", ...instanceIds.map((instanceId) => this.instanceKey(instanceId))]);
+    const deadInstances = new Set(
+      instanceIds.filter((instanceId, i) => !Array.isArray(heartbeats) || heartbeats[i] === null)
+    );
+    if (deadInstances.size === 0) {
+      return members;
+    }
+
+    const stale = members.filter((member) => deadInstances.has(member.instanceId));
+    console.warn(`[RedisBroker] Pruning ${stale.length} member(s) of expired instances from session ${sessionId}`);
+    await this.run(["HDEL", this.membersKey(sessionId), ...stale.map((member) => member.clientId)]);
+    return members.filter((member) => !deadInstances.has(member.instanceId));
+  }
+
+  public async close(): Promise<void> {
+    clearInterval(this.heartbeatInterval);
+    // Let the other instances drop our members right away instead of after the TTL
+    const instanceIds = this.getLocalInstanceIds();
+    if (instanceIds.length > 0 && this.commands.isReady()) {
+      for (const [sessionId, members] of this.localMembers) {
+        await this.run(["HDEL", this.membersKey(sessionId), ...members.keys()]).catch((error) => {
+          console.error(`[RedisBroker] Failed to remove members of session ${sessionId}:`, error.message);
+        });
+      }
+      this.localMembers.clear();
+      await this.run(["DEL", ...instanceIds.map((instanceId) => this.instanceKey(instanceId))]).catch((error) => {
+        console.error("[RedisBroker] Failed to remove instance heartbeat:", error.message);
+      });
+    }
+    this.commands.close();
+    this.subscriber.close();
+  }
+
+  private channel(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}`;
+  }
+
+  private membersKey(sessionId: string): string {
+    return `${this.keyPrefix}members:${sessionId}`;
+  }
+
+  private instanceKey(instanceId: string): string {
+    return `${this.keyPrefix}instance:${instanceId}`;
+  }
+
+  private getLocalInstanceIds(): string[] {
+    const instanceIds = new Set<string>();
+    for (const members of this.localMembers.values()) {
+      for (const member of members.values()) {
+        instanceIds.add(member.instanceId);
+      }
+    }
+    return [...instanceIds];
+  }
+
+  private async refreshHeartbeats(): Promise<void> {
+    if (!this.commands.isReady()) return;
+    for (const instanceId of this.getLocalInstanceIds()) {
+      await this.run(["SET", this.instanceKey(instanceId), "1", "PX", String(INSTANCE_TTL_MS)]);
+    }
+  }
+
+  private run(args: string[]): Promise<RespValue> {
+    return this.runOn(this.commands, args);
+  }
+
+  private async runOn(connection: RedisConnection, args: string[]): Promise<RespValue> {
+    const reply = await connection.command(args);
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  }
+
+  private handleMessage(push: RespValue[]): void {
+    const [, channel, payload] = push;
+    if (typeof channel !== "string" || typeof payload !== "string") return;
+
+    let envelope: BrokerEnvelope;
+    try {
+      envelope = JSON.parse(payload);
+    } catch (error) {
+      console.warn(`[RedisBroker] Ignoring unreadable message on ${channel}`);
+      return;
+    }
+
+    for (const handler of this.handlers.get(envelope.sessionId) ?? []) {
+      handler(envelope);
+    }
+  }
+
+  /**
+   * Restore our heartbeat and members after (re)connecting
+   * Other instances may have pruned them if the connection was down for longer than the TTL.
+   */
+  private restoreMembers(): void {
+    (async () => {
+      await this.refreshHeartbeats();
+      for (const [sessionId, members] of this.localMembers) {
+        for (const member of members.values()) {
+          await this.run(["HSET", this.membersKey(sessionId), member.clientId, JSON.stringify(member)]);
+        }
+      }
+    })().catch((error) => {
+      console.error("[RedisBroker] Failed to restore members:", error.message);
+    });
+  }
+
+  /**
+   * Restore channel subscriptions after (re)connecting
+   */
+  private resubscribe(): void {
+    for (const sessionId of this.handlers.keys()) {
+      this.runOn(this.subscriber, ["SUBSCRIBE", this.channel(sessionId)]).catch((error) => {
+        console.error(`[RedisBroker] Failed to subscribe to session ${sessionId}:`, error.message);
+      });
+    }
+  }
+}
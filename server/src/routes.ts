@@ -1,9 +1,146 @@
 import { Router, Request, Response } from "express";
-import { SpotifyClient } from "./spotify";
+import { SpotifyClient, SpotifyUnavailableError, toSpotifyTrackUri } from "./spotify";
+import { TrackResolver } from "./trackResolver";
+import { MatchCache } from "./matchCache";
+import { MatchOverrides } from "./matchOverrides";
+import { ListenerSyncWorker } from "./syncWorker";
+import { SessionRegistry } from "./sessionRegistry";
+import { SessionHistory } from "./sessionHistory";
+import { registry, Counter, Histogram, METRICS_CONTENT_TYPE } from "./metrics";
 
-export function createRoutes(spotifyClient: SpotifyClient): Router {
+const MAX_PLAYLIST_NAME_LENGTH = 100;
+
+const httpRequests = registry.register(
+  new Counter("apple_spotify_sync_http_requests_total", "HTTP requests by method, route and status", [
+    "method",
+    "route",
+    "status",
+  ])
+);
+const httpRequestDuration = registry.register(
+  new Histogram("apple_spotify_sync_http_request_duration_seconds", "HTTP request latency", ["method", "route"])
+);
+
+/**
+ * Respond 503 with Retry-After when Spotify is rate limiting or the listener's circuit is open
+ * Returns false for any other error.
+ */
+function sendSpotifyUnavailable(res: Response, error: any, label: string): boolean {
+  if (!(error instanceof SpotifyUnavailableError)) {
+    return false;
+  }
+
+  res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+  res.status(503).json({
+    error: label,
+    message: error.message,
+    reason: error.reason,
+    retryAfterMs: error.retryAfterMs,
+  });
+  return true;
+}
+
+/**
+ * Spotify track for a play or queue request: the given spotifyTrackId, or the best match for the Apple metadata
+ * Responds with the error and returns null when there is no track to use.
+ */
+async function resolveRequestedTrack(
+  trackResolver: TrackResolver,
+  listenerId: string,
+  body: any,
+  res: Response
+): Promise<{ trackUri: string; confidence: number | null; fromCache: boolean } | null> {
+  const { appleTrackId, trackTitle, artistName, albumName, durationSec, isrc, spotifyTrackId } = body;
+
+  if (spotifyTrackId) {
+    // Use provided Spotify track ID
+    const trackUri = toSpotifyTrackUri(spotifyTrackId);
+    if (!trackUri) {
+      res.status(400).json({ error: "Invalid spotifyTrackId" });
+      return null;
+    }
+    return { trackUri, confidence: null, fromCache: false };
+  }
+
+  if (!trackTitle) {
+    res.status(400).json({
+      error: "Missing track information",
+      message: "Either spotifyTrackId or trackTitle is required",
+    });
+    return null;
+  }
+
+  // Use the shared match cache, or search and score candidates against the Apple metadata
+  const result = await trackResolver.resolve(listenerId, appleTrackId, {
+    title: trackTitle,
+    artist: artistName,
+    album: albumName,
+    durationSec: typeof durationSec === "number" ? durationSec : null,
+    isrc: typeof isrc === "string" ? isrc : null,
+  });
+  if (result.status === "not_found" || !result.match) {
+    res.status(404).json({
+      error: "Track not found",
+      message: `Could not find "${trackTitle}" on Spotify`,
+    });
+    return null;
+  }
+  if (result.status === "low_confidence") {
+    const match = result.match;
+    console.warn(`Low confidence match for "${trackTitle}": ${match.spotifyTitle} (${match.confidence.toFixed(2)})`);
+    res.status(422).json({
+      error: "Low confidence match",
+      message: `Best match for "${trackTitle}" was "${match.spotifyTitle}" by ${match.spotifyArtists.join(", ")}`,
+      lowConfidence: true,
+      confidence: match.confidence,
+      candidateUri: match.spotifyUri,
+    });
+    return null;
+  }
+
+  return { trackUri: result.match.spotifyUri, confidence: result.match.confidence, fromCache: result.fromCache };
+}
+
+/**
+ * Matches are shared by every session, so changing them takes a session owner's credentials
+ * Responds with 403 and returns false unless the body carries a valid { sessionId, ownerSecret }.
+ */
+function requireSessionOwner(sessionRegistry: SessionRegistry, req: Request, res: Response): boolean {
+  const { sessionId, ownerSecret } = req.body ?? {};
+  if (typeof sessionId === "string" && sessionRegistry.verifyOwner(sessionId, ownerSecret)) {
+    return true;
+  }
+
+  res.status(403).json({ error: "Session owner credentials required" });
+  return false;
+}
+
+function isOptionalTimestamp(value: unknown): value is number | undefined {
+  return value === undefined || (typeof value === "number" && Number.isFinite(value));
+}
+
+export function createRoutes(
+  spotifyClient: SpotifyClient,
+  trackResolver: TrackResolver,
+  matchCache: MatchCache,
+  matchOverrides: MatchOverrides,
+  syncWorker: ListenerSyncWorker,
+  sessionRegistry: SessionRegistry,
+  sessionHistory: SessionHistory
+): Router {
   const router = Router();
 
+  // Count and time every request by route pattern (paths without a route are grouped as "unmatched")
+  router.use((req: Request, res: Response, next) => {
+    const stopTimer = httpRequestDuration.startTimer();
+    res.on("finish", () => {
+      const route = req.route ? String(req.route.path) : "unmatched";
+      stopTimer({ method: req.method, route });
+      httpRequests.inc({ method: req.method, route, status: res.statusCode });
+    });
+    next();
+  });
+
   /**
    * GET /auth/spotify/login?listenerId=XYZ
    * Redirects to Spotify OAuth authorization page
@@ -95,10 +232,11 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
   /**
    * POST /api/spotify/play-track
    * Search for a track and start playback
+   * Responds 422 with lowConfidence: true when the best match is below the threshold
    */
   router.post("/api/spotify/play-track", async (req: Request, res: Response) => {
     try {
-      const { listenerId, trackTitle, artistName, positionMs, spotifyTrackId } = req.body;
+      const { listenerId, positionMs } = req.body;
 
       if (!listenerId) {
         return res.status(400).json({ error: "listenerId is required" });
@@ -111,35 +249,11 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
         });
       }
 
-      let trackUri: string | null = null;
-
-      if (spotifyTrackId) {
-        // Use provided Spotify track ID
-        trackUri = spotifyTrackId.startsWith("spotify:track:")
-          ? spotifyTrackId
-          : `spotify:track:${spotifyTrackId}`;
-      } else if (trackTitle) {
-        // Search for track by name only (uses top-rated result)
-        trackUri = await spotifyClient.searchTrack(listenerId, trackTitle);
-        if (!trackUri) {
-          return res.status(404).json({
-            error: "Track not found",
-            message: `Could not find "${trackTitle}" on Spotify`,
-          });
-        }
-      } else {
-        return res.status(400).json({
-          error: "Missing track information",
-          message: "Either spotifyTrackId or trackTitle is required",
-        });
-      }
-
-      // At this point, trackUri must be a string (not null)
-      if (!trackUri) {
-        return res.status(400).json({
-          error: "Invalid track URI",
-        });
+      const track = await resolveRequestedTrack(trackResolver, listenerId, req.body, res);
+      if (!track) {
+        return;
       }
+      const { trackUri, confidence, fromCache } = track;
 
       const position = positionMs || 0;
       await spotifyClient.playTrack(listenerId, trackUri, position);
@@ -147,10 +261,13 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
       res.json({
         success: true,
         trackUri,
+        confidence,
+        fromCache,
         positionMs: position,
       });
     } catch (error: any) {
       console.error("Error playing track:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to play track")) return;
       const statusCode = error.message.includes("Premium") ? 403 : error.message.includes("device") ? 404 : 500;
       res.status(statusCode).json({
         error: "Failed to play track",
@@ -159,6 +276,44 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
     }
   });
 
+  /**
+   * POST /api/spotify/queue
+   * Add the host's next track to the listener's Spotify queue (same body as play-track, without positionMs)
+   */
+  router.post("/api/spotify/queue", async (req: Request, res: Response) => {
+    try {
+      const { listenerId } = req.body;
+
+      if (!listenerId) {
+        return res.status(400).json({ error: "listenerId is required" });
+      }
+
+      if (!spotifyClient.hasTokens(listenerId)) {
+        return res.status(401).json({
+          error: "Not authenticated",
+          message: "Please authenticate with Spotify first via /auth/spotify/login",
+        });
+      }
+
+      const track = await resolveRequestedTrack(trackResolver, listenerId, req.body, res);
+      if (!track) {
+        return;
+      }
+
+      await spotifyClient.addToQueue(listenerId, track.trackUri);
+
+      res.json({ success: true, ...track });
+    } catch (error: any) {
+      console.error("Error queueing track:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to queue track")) return;
+      const statusCode = error.message.includes("Premium") ? 403 : error.message.includes("device") ? 404 : 500;
+      res.status(statusCode).json({
+        error: "Failed to queue track",
+        message: error.message,
+      });
+    }
+  });
+
   /**
    * POST /api/spotify/pause
    * Pause playback
@@ -183,6 +338,7 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
       res.json({ success: true });
     } catch (error: any) {
       console.error("Error pausing playback:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to pause playback")) return;
       const statusCode = error.message.includes("Premium") ? 403 : error.message.includes("device") ? 404 : 500;
       res.status(statusCode).json({
         error: "Failed to pause playback",
@@ -219,6 +375,7 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
       res.json({ success: true, positionMs });
     } catch (error: any) {
       console.error("Error seeking:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to seek")) return;
       const statusCode = error.message.includes("Premium") ? 403 : error.message.includes("device") ? 404 : 500;
       res.status(statusCode).json({
         error: "Failed to seek",
@@ -227,6 +384,415 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
     }
   });
 
+  /**
+   * GET /api/spotify/player?listenerId=XYZ
+   * Get the listener's actual Spotify playback state (position, play state, track)
+   */
+  router.get("/api/spotify/player", async (req: Request, res: Response) => {
+    try {
+      const listenerId = req.query.listenerId as string;
+
+      if (!listenerId) {
+        return res.status(400).json({ error: "listenerId query parameter is required" });
+      }
+
+      if (!spotifyClient.hasTokens(listenerId)) {
+        return res.status(401).json({
+          error: "Not authenticated",
+          message: "Please authenticate with Spotify first via /auth/spotify/login",
+        });
+      }
+
+      const playback = await spotifyClient.getPlaybackState(listenerId);
+      res.json({ active: playback !== null, playback, circuit: spotifyClient.getCircuitState(listenerId) });
+    } catch (error: any) {
+      console.error("Error getting playback state:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to get playback state")) return;
+      res.status(500).json({
+        error: "Failed to get playback state",
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/spotify/devices?listenerId=XYZ
+   * List the listener's Spotify devices and their preferred device
+   */
+  router.get("/api/spotify/devices", async (req: Request, res: Response) => {
+    try {
+      const listenerId = req.query.listenerId as string;
+
+      if (!listenerId) {
+        return res.status(400).json({ error: "listenerId query parameter is required" });
+      }
+
+      if (!spotifyClient.hasTokens(listenerId)) {
+        return res.status(401).json({
+          error: "Not authenticated",
+          message: "Please authenticate with Spotify first via /auth/spotify/login",
+        });
+      }
+
+      const devices = await spotifyClient.getDevices(listenerId);
+      res.json({ devices, preferredDevice: spotifyClient.getPreferredDevice(listenerId) });
+    } catch (error: any) {
+      console.error("Error getting devices:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to get devices")) return;
+      res.status(500).json({
+        error: "Failed to get devices",
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * PUT /api/spotify/devices/preferred
+   * Set the device to wake up when nothing is active (body: { listenerId, deviceId, transfer? })
+   * transfer: true also moves current playback there now.
+   */
+  router.put("/api/spotify/devices/preferred", async (req: Request, res: Response) => {
+    try {
+      const { listenerId, deviceId, transfer } = req.body;
+
+      if (!listenerId || typeof deviceId !== "string") {
+        return res.status(400).json({ error: "listenerId and deviceId are required" });
+      }
+
+      if (!spotifyClient.hasTokens(listenerId)) {
+        return res.status(401).json({
+          error: "Not authenticated",
+          message: "Please authenticate with Spotify first via /auth/spotify/login",
+        });
+      }
+
+      const device = (await spotifyClient.getDevices(listenerId)).find((candidate) => candidate.id === deviceId);
+      if (!device) {
+        return res.status(404).json({ error: "Device not found", message: "Open Spotify on the device and try again" });
+      }
+      if (device.isRestricted) {
+        return res.status(400).json({ error: "Device can't be controlled remotely" });
+      }
+
+      const preferredDevice = spotifyClient.setPreferredDevice(listenerId, device);
+      if (transfer === true) {
+        await spotifyClient.transferPlayback(listenerId, device.id, false);
+      }
+
+      res.json({ success: true, preferredDevice, transferred: transfer === true });
+    } catch (error: any) {
+      console.error("Error setting preferred device:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to set preferred device")) return;
+      const statusCode = error.message.includes("Premium") ? 403 : error.message.includes("device not found") ? 404 : 500;
+      res.status(statusCode).json({
+        error: "Failed to set preferred device",
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/spotify/devices/preferred/:listenerId
+   * Forget the listener's preferred device
+   */
+  router.delete("/api/spotify/devices/preferred/:listenerId", (req: Request, res: Response) => {
+    const { listenerId } = req.params;
+
+    if (!spotifyClient.clearPreferredDevice(listenerId)) {
+      return res.status(404).json({ error: "No preferred device set" });
+    }
+
+    res.json({ success: true, listenerId });
+  });
+
+  /**
+   * POST /api/sessions/:id/playlist
+   * Save the tracks played in a session to a new playlist in the listener's account
+   * (body: { listenerId, from?, to?, name? }; from/to are timestamps in milliseconds limiting when tracks started)
+   * Tracks without a confident Spotify match are listed in `unmatched`; repeats are added once.
+   */
+  router.post("/api/sessions/:id/playlist", async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.params.id;
+      const { listenerId, from, to, name } = req.body;
+
+      if (!listenerId) {
+        return res.status(400).json({ error: "listenerId is required" });
+      }
+
+      const record = sessionRegistry.get(sessionId);
+      if (!record) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      if (!spotifyClient.hasTokens(listenerId)) {
+        return res.status(401).json({
+          error: "Not authenticated",
+          message: "Please authenticate with Spotify first via /auth/spotify/login",
+        });
+      }
+
+      if (!isOptionalTimestamp(from) || !isOptionalTimestamp(to) || (name !== undefined && typeof name !== "string")) {
+        return res.status(400).json({ error: "from and to must be timestamps in milliseconds and name a string" });
+      }
+
+      const entries = sessionHistory
+        .getEntries(sessionId)
+        .filter((entry) => entry.startedAt >= (from ?? 0) && entry.startedAt <= (to ?? Infinity));
+      if (entries.length === 0) {
+        return res.status(404).json({ error: "No tracks were played in this session in that time range" });
+      }
+
+      const trackUris = new Set<string>(); // insertion order is play order
+      const unmatched: { appleTrackId: string; title: string | null; artist: string | null; startedAt: number }[] = [];
+      const resolvedUris = new Map<string, string | null>(); // per Apple track, so repeats resolve once
+      let duplicatesSkipped = 0;
+      for (const entry of entries) {
+        // Resolve every entry again (usually a cache hit): the relay may not have resolved it at the time, and
+        // only confident matches belong in the playlist
+        let trackUri = resolvedUris.get(entry.appleTrackId);
+        if (trackUri === undefined) {
+          trackUri = null;
+          if (entry.title) {
+            try {
+              const result = await trackResolver.resolve(listenerId, entry.appleTrackId, {
+                title: entry.title,
+                artist: entry.artist,
+                album: entry.album,
+                durationSec: entry.durationSec,
+                isrc: entry.isrc,
+              });
+              trackUri = result.status === "matched" && result.match ? result.match.spotifyUri : null;
+            } catch (error) {
+              if (error instanceof SpotifyUnavailableError) throw error;
+            }
+          }
+          resolvedUris.set(entry.appleTrackId, trackUri);
+        }
+
+        if (!trackUri) {
+          unmatched.push({
+            appleTrackId: entry.appleTrackId,
+            title: entry.title,
+            artist: entry.artist,
+            startedAt: entry.startedAt,
+          });
+        } else if (trackUris.has(trackUri)) {
+          duplicatesSkipped++;
+        } else {
+          trackUris.add(trackUri);
+        }
+      }
+
+      if (trackUris.size === 0) {
+        return res.status(422).json({
+          error: "No matched tracks",
+          message: "None of the tracks in that range have a Spotify match",
+          unmatched,
+        });
+      }
+
+      const sessionName = record.name || "Listening session";
+      const playlistName =
+        name?.trim().slice(0, MAX_PLAYLIST_NAME_LENGTH) ||
+        `${sessionName} · ${new Date(entries[0].startedAt).toISOString().slice(0, 10)}`;
+      const playlist = await spotifyClient.createPlaylist(
+        listenerId,
+        playlistName,
+        `Tracks played in "${sessionName}", synced from Apple Music`
+      );
+      await spotifyClient.addTracksToPlaylist(listenerId, playlist.id, [...trackUris]);
+      console.log(
+        `Created playlist ${playlist.id} from session ${sessionId} for ${listenerId} ` +
+          `(${trackUris.size} tracks, ${unmatched.length} unmatched)`
+      );
+
+      res.status(201).json({
+        success: true,
+        playlist,
+        name: playlistName,
+        added: trackUris.size,
+        duplicatesSkipped,
+        unmatched,
+      });
+    } catch (error: any) {
+      console.error("Error creating playlist:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to create playlist")) return;
+      res.status(error.message.includes("permission") ? 403 : 500).json({
+        error: "Failed to create playlist",
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/sync/headless
+   * Register a listener for server-driven sync (body: { listenerId, joinCode })
+   * The server applies the host's playback to the listener's Spotify without the extension.
+   */
+  router.post("/api/sync/headless", (req: Request, res: Response) => {
+    const { listenerId, joinCode } = req.body;
+
+    if (!listenerId || !joinCode) {
+      return res.status(400).json({ error: "listenerId and joinCode are required" });
+    }
+
+    if (!sessionRegistry.allowJoinCodeLookup(req.ip ?? "unknown")) {
+      return res.status(429).json({ error: "Too many join attempts, try again later" });
+    }
+
+    const session = sessionRegistry.findByJoinCode(joinCode);
+    if (!session) {
+      return res.status(404).json({ error: "Invalid join code" });
+    }
+
+    if (!spotifyClient.hasTokens(listenerId)) {
+      return res.status(401).json({
+        error: "Not authenticated",
+        message: "Please authenticate with Spotify first via /auth/spotify/login",
+      });
+    }
+
+    const status = syncWorker.register(listenerId, session.sessionId);
+    res.json({ success: true, ...status });
+  });
+
+  /**
+   * GET /api/sync/headless/:listenerId
+   * Get headless sync status for a listener
+   */
+  router.get("/api/sync/headless/:listenerId", (req: Request, res: Response) => {
+    const status = syncWorker.getStatus(req.params.listenerId);
+
+    if (!status) {
+      return res.status(404).json({ error: "Listener is not registered for headless sync" });
+    }
+
+    res.json(status);
+  });
+
+  /**
+   * DELETE /api/sync/headless/:listenerId
+   * Stop server-driven sync for a listener
+   */
+  router.delete("/api/sync/headless/:listenerId", (req: Request, res: Response) => {
+    const { listenerId } = req.params;
+
+    if (!syncWorker.unregister(listenerId)) {
+      return res.status(404).json({ error: "Listener is not registered for headless sync" });
+    }
+
+    res.json({ success: true, listenerId });
+  });
+
+  /**
+   * GET /api/matches/:appleTrackId
+   * Get the manual match override for an Apple track
+   */
+  router.get("/api/matches/:appleTrackId", (req: Request, res: Response) => {
+    const override = matchOverrides.get(req.params.appleTrackId);
+
+    if (!override) {
+      return res.status(404).json({ error: "No override for this track" });
+    }
+
+    res.json(override);
+  });
+
+  /**
+   * PUT /api/matches/:appleTrackId
+   * Set a manual match override (body: { spotifyUri, sessionId, ownerSecret })
+   * spotifyUri may be a spotify:track: URI, an open.spotify.com link or a bare track id.
+   */
+  router.put("/api/matches/:appleTrackId", async (req: Request, res: Response) => {
+    try {
+      const { appleTrackId } = req.params;
+      const { spotifyUri, sessionId } = req.body;
+
+      if (!requireSessionOwner(sessionRegistry, req, res)) return;
+
+      if (typeof spotifyUri !== "string") {
+        return res.status(400).json({ error: "spotifyUri is required" });
+      }
+
+      const trackUri = toSpotifyTrackUri(spotifyUri);
+      if (!trackUri) {
+        return res.status(400).json({
+          error: "Invalid Spotify track",
+          message: "Expected a Spotify track link, spotify:track: URI or track id",
+        });
+      }
+
+      // Validate the track exists and capture its metadata
+      const track = await spotifyClient.getTrack(trackUri);
+      if (!track) {
+        return res.status(404).json({ error: "Spotify track not found" });
+      }
+
+      const override = {
+        appleTrackId,
+        spotifyUri: track.uri,
+        spotifyTitle: track.name,
+        spotifyArtists: track.artists,
+        createdBy: sessionId,
+        createdAt: Date.now(),
+      };
+      // Drop the cached search result so removing the override triggers a fresh search
+      matchCache.invalidate(appleTrackId);
+      matchOverrides.set(override);
+
+      console.log(`Match override set: ${appleTrackId} -> ${track.uri} (${track.name})`);
+      res.json(override);
+    } catch (error: any) {
+      console.error("Error setting match override:", error);
+      if (sendSpotifyUnavailable(res, error, "Failed to set match override")) return;
+      res.status(500).json({
+        error: "Failed to set match override",
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/matches/:appleTrackId
+   * Remove a manual match override (body: { sessionId, ownerSecret })
+   */
+  router.delete("/api/matches/:appleTrackId", (req: Request, res: Response) => {
+    const { appleTrackId } = req.params;
+    if (!requireSessionOwner(sessionRegistry, req, res)) return;
+
+    if (!matchOverrides.delete(appleTrackId)) {
+      return res.status(404).json({ error: "No override for this track" });
+    }
+
+    res.json({ success: true, appleTrackId });
+  });
+
+  /**
+   * DELETE /api/match-cache/:appleTrackId
+   * Invalidate the cached Spotify match for an Apple track (body: { sessionId, ownerSecret })
+   */
+  router.delete("/api/match-cache/:appleTrackId", (req: Request, res: Response) => {
+    const { appleTrackId } = req.params;
+    if (!requireSessionOwner(sessionRegistry, req, res)) return;
+
+    if (!matchCache.invalidate(appleTrackId)) {
+      return res.status(404).json({ error: "No cached match for this track" });
+    }
+
+    res.json({ success: true, appleTrackId });
+  });
+
+  /**
+   * DELETE /api/match-cache
+   * Clear all cached matches (body: { sessionId, ownerSecret })
+   */
+  router.delete("/api/match-cache", (req: Request, res: Response) => {
+    if (!requireSessionOwner(sessionRegistry, req, res)) return;
+    matchCache.clear();
+    res.json({ success: true });
+  });
+
   /**
    * GET /health
    * Health check endpoint
@@ -235,6 +801,14 @@ export function createRoutes(spotifyClient: SpotifyClient): Router {
     res.json({ status: "ok" });
   });
 
+  /**
+   * GET /metrics
+   * Prometheus metrics for the relay, Spotify API calls and track matching
+   */
+  router.get("/metrics", (req: Request, res: Response) => {
+    res.type(METRICS_CONTENT_TYPE).send(registry.render());
+  });
+
   return router;
 }
 
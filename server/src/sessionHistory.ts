@@ -0,0 +1,239 @@
+import fs from "fs";
+import path from "path";
+import { ApplePlaybackState, TrackMatchInfo } from "./types";
+
+/**
+ * A track the host played in a session
+ */
+export interface HistoryEntry {
+  appleTrackId: string;
+  catalogId: string | null;
+  isrc: string | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  startedAt: number; // timestamp in milliseconds (server time)
+  durationSec: number | null; // track length
+  playedSec: number; // time the host actually played it (seeks and pauses don't count)
+  spotifyUri: string | null; // Spotify track listeners were sent to, if one was matched
+}
+
+/**
+ * Spotify track listeners are sent to for a match (they skip low-confidence ones)
+ */
+function playedUri(match: TrackMatchInfo | null): string | null {
+  return match?.status === "matched" ? match.spotifyUri : null;
+}
+
+/**
+ * Where the current track's play time was last measured
+ */
+interface PlaybackMark {
+  trackId: string;
+  positionSec: number;
+  timestampMs: number;
+}
+
+export const DEFAULT_MAX_HISTORY_ENTRIES = 5000;
+
+// Session ids become file names
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Tracklist of every session, appended on each host track change
+ * Persisted as one JSON file per session in a directory when a path is given, so it outlives the session.
+ * Only the relay instance holding a session's host records it.
+ */
+export class SessionHistory {
+  private dirPath: string | null;
+  private maxEntries: number;
+  private histories: Map<string, HistoryEntry[]> = new Map(); // sessions recorded by this instance
+  private marks: Map<string, PlaybackMark> = new Map();
+
+  constructor(dirPath: string | null, maxEntries: number = DEFAULT_MAX_HISTORY_ENTRIES) {
+    this.dirPath = dirPath;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Record a host state: a new track appends an entry, the same track adds to its play time
+   */
+  public record(sessionId: string, state: ApplePlaybackState, match: TrackMatchInfo | null): void {
+    if (!state.trackId) return;
+
+    const timestampMs = state.serverTimestampMs ?? state.hostTimestampMs;
+    const entries = this.load(sessionId);
+    const mark = this.marks.get(sessionId);
+    this.marks.set(sessionId, { trackId: state.trackId, positionSec: state.positionSec, timestampMs });
+
+    // Without a mark (restart, or the session emptied and came back) the same track continues its entry
+    const current = entries[entries.length - 1];
+    if (current && current.appleTrackId === state.trackId && (!mark || mark.trackId === state.trackId)) {
+      if (mark) {
+        // Count forward progress, but never more than the time that passed (a seek isn't listening)
+        const progressSec = state.positionSec - mark.positionSec;
+        const elapsedSec = (timestampMs - mark.timestampMs) / 1000;
+        current.playedSec += Math.max(0, Math.min(progressSec, elapsedSec));
+      }
+      current.spotifyUri = current.spotifyUri ?? playedUri(match);
+      return;
+    }
+
+    entries.push({
+      appleTrackId: state.trackId,
+      catalogId: state.catalogId ?? null,
+      isrc: state.isrc ?? null,
+      title: state.title,
+      artist: state.artist,
+      album: state.album,
+      startedAt: Math.round(timestampMs - state.positionSec * 1000),
+      durationSec: state.durationSec,
+      playedSec: 0,
+      spotifyUri: playedUri(match),
+    });
+    if (entries.length > this.maxEntries) {
+      entries.splice(0, entries.length - this.maxEntries);
+    }
+    this.save(sessionId);
+  }
+
+  /**
+   * Point the current entry at a corrected Spotify match
+   */
+  public updateSpotifyUri(sessionId: string, appleTrackId: string, match: TrackMatchInfo): void {
+    const entries = this.histories.get(sessionId);
+    const current = entries?.[entries.length - 1];
+    if (!current || current.appleTrackId !== appleTrackId) return;
+
+    current.spotifyUri = playedUri(match);
+    this.save(sessionId);
+  }
+
+  /**
+   * A session's tracklist, oldest first
+   */
+  public getEntries(sessionId: string): HistoryEntry[] {
+    return this.histories.get(sessionId) ?? this.readFile(sessionId);
+  }
+
+  /**
+   * Stop recording a session on this instance (its last member left)
+   * The history is saved with the final play time and dropped from memory once it is on disk.
+   */
+  public release(sessionId: string): void {
+    if (!this.histories.has(sessionId)) return;
+
+    this.save(sessionId);
+    this.marks.delete(sessionId);
+    if (this.dirPath) {
+      this.histories.delete(sessionId);
+    }
+  }
+
+  /**
+   * Remove a session's history
+   * Returns false if there was none.
+   */
+  public delete(sessionId: string): boolean {
+    const existed = this.histories.delete(sessionId);
+    this.marks.delete(sessionId);
+
+    const filePath = this.getFilePath(sessionId);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return existed;
+    }
+
+    try {
+      fs.unlinkSync(filePath);
+      return true;
+    } catch (error: any) {
+      console.error(`[SessionHistory] Failed to delete history of session ${sessionId}:`, error.message);
+      return existed;
+    }
+  }
+
+  private load(sessionId: string): HistoryEntry[] {
+    let entries = this.histories.get(sessionId);
+    if (!entries) {
+      // Continue a history saved earlier (server restart, or the host was on another instance)
+      entries = this.readFile(sessionId);
+      this.histories.set(sessionId, entries);
+    }
+    return entries;
+  }
+
+  private getFilePath(sessionId: string): string | null {
+    if (!this.dirPath || !SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+    return path.join(this.dirPath, `${sessionId}.json`);
+  }
+
+  private readFile(sessionId: string): HistoryEntry[] {
+    const filePath = this.getFilePath(sessionId);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf8")) as HistoryEntry[];
+    } catch (error: any) {
+      console.error(`[SessionHistory] Failed to read history of session ${sessionId}:`, error.message);
+      return [];
+    }
+  }
+
+  private save(sessionId: string): void {
+    const filePath = this.getFilePath(sessionId);
+    const entries = this.histories.get(sessionId);
+    if (!filePath || !entries) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(entries, null, 2));
+      fs.renameSync(tmpPath, filePath);
+    } catch (error: any) {
+      console.error(`[SessionHistory] Failed to write history of session ${sessionId}:`, error.message);
+    }
+  }
+}
+
+const CSV_COLUMNS: (keyof HistoryEntry)[] = [
+  "startedAt",
+  "title",
+  "artist",
+  "album",
+  "durationSec",
+  "playedSec",
+  "appleTrackId",
+  "catalogId",
+  "isrc",
+  "spotifyUri",
+];
+
+function toCsvField(value: string | number | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  // Keep spreadsheets from evaluating titles like "=HYPERLINK(...)"
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render history entries as CSV (startedAt as ISO 8601, play time rounded to 0.1s)
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === "startedAt") return toCsvField(new Date(entry.startedAt).toISOString());
+      if (column === "playedSec") return toCsvField(Math.round(entry.playedSec * 10) / 10);
+      return toCsvField(entry[column]);
+    }).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,276 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { KeyedRateLimiter } from "./rateLimiter";
+
+/**
+ * A session created by its owner (the host)
+ */
+export interface SessionRecord {
+  sessionId: string;
+  name: string | null;
+  joinCode: string; // shareable code listeners use to join
+  ownerSecretHash: string; // sha256 of the owner secret, hex
+  createdAt: number; // timestamp in milliseconds
+}
+
+/**
+ * Returned once at creation - the owner secret is never stored in plain text
+ */
+export interface CreatedSession {
+  sessionId: string;
+  name: string | null;
+  joinCode: string;
+  ownerSecret: string;
+}
+
+// No 0/O or 1/I/L so codes can be read out loud
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 6;
+const MAX_SESSION_NAME_LENGTH = 60;
+
+// Join code lookups per client address - enough for a room of listeners behind one NAT, too few to guess codes
+const JOIN_CODE_LOOKUPS_PER_SECOND = 1;
+const JOIN_CODE_LOOKUP_BURST = 30;
+// Writes hold a lock file so instances sharing the file don't drop each other's changes
+const LOCK_TIMEOUT_MS = 2000;
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10000; // a lock this old was left by an instance that died while writing
+
+/**
+ * Registry of explicitly created sessions
+ * Hosts must prove ownership with the owner secret; listeners join with the join code.
+ * Persisted to a JSON file when a path is given. Relay instances sharing the file pick up each other's
+ * sessions and deletions: a lookup re-reads it only if it changed, and a write merges into it under a lock.
+ */
+export class SessionRegistry {
+  private filePath: string | null;
+  private sessions: Map<string, SessionRecord> = new Map();
+  private fileVersion: string | null = null; // mtime and size of the file as last read or written
+  private joinCodeLookups = new KeyedRateLimiter(JOIN_CODE_LOOKUPS_PER_SECOND, JOIN_CODE_LOOKUP_BURST);
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  public async create(name?: string | null): Promise<CreatedSession> {
+    const ownerSecret = crypto.randomBytes(24).toString("base64url");
+    let record!: SessionRecord;
+    await this.update(() => {
+      // Generated against the latest file so the join code is unique across instances
+      record = {
+        sessionId: crypto.randomUUID(),
+        name: typeof name === "string" && name.trim() ? name.trim().slice(0, MAX_SESSION_NAME_LENGTH) : null,
+        joinCode: this.generateJoinCode(),
+        ownerSecretHash: this.hashSecret(ownerSecret),
+        createdAt: Date.now(),
+      };
+      this.sessions.set(record.sessionId, record);
+      return true;
+    });
+    console.log(`[SessionRegistry] Session created: ${record.sessionId}${record.name ? ` (${record.name})` : ""}`);
+
+    return {
+      sessionId: record.sessionId,
+      name: record.name,
+      joinCode: record.joinCode,
+      ownerSecret,
+    };
+  }
+
+  public get(sessionId: string): SessionRecord | null {
+    this.refresh();
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  /**
+   * All sessions, oldest first
+   */
+  public list(): SessionRecord[] {
+    this.refresh();
+    return [...this.sessions.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Count a join code lookup against the client's address
+   * Returns false when the client is over its rate and should be refused without a lookup.
+   */
+  public allowJoinCodeLookup(clientAddress: string): boolean {
+    return this.joinCodeLookups.tryRemove(clientAddress);
+  }
+
+  public findByJoinCode(joinCode: string): SessionRecord | null {
+    this.refresh();
+    return this.findLoadedByJoinCode(joinCode.trim().toUpperCase());
+  }
+
+  /**
+   * Check an owner secret against a session
+   */
+  public verifyOwner(sessionId: string, ownerSecret: string): boolean {
+    const record = this.get(sessionId);
+    if (!record || typeof ownerSecret !== "string") {
+      return false;
+    }
+
+    const expected = Buffer.from(record.ownerSecretHash, "hex");
+    const actual = Buffer.from(this.hashSecret(ownerSecret), "hex");
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Remove a session
+   * Returns false if it didn't exist.
+   */
+  public async delete(sessionId: string): Promise<boolean> {
+    let deleted = false;
+    await this.update(() => {
+      deleted = this.sessions.delete(sessionId);
+      return deleted;
+    });
+    return deleted;
+  }
+
+  private generateJoinCode(): string {
+    let code: string;
+    do {
+      code = "";
+      for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+        code += JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)];
+      }
+    } while (this.findLoadedByJoinCode(code));
+    return code;
+  }
+
+  private findLoadedByJoinCode(joinCode: string): SessionRecord | null {
+    for (const record of this.sessions.values()) {
+      if (record.joinCode === joinCode) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash("sha256").update(secret).digest("hex");
+  }
+
+  private load(): void {
+    if (this.refresh()) {
+      console.log(`[SessionRegistry] Loaded ${this.sessions.size} session(s) from ${this.filePath}`);
+    }
+  }
+
+  /**
+   * Replace the in-memory sessions with the file's contents if it changed since we last read or wrote it
+   * A stat is all an unchanged file costs, so guessed join codes don't each re-parse it.
+   * Returns false when nothing was read (no file, or unchanged).
+   */
+  private refresh(): boolean {
+    if (!this.filePath) {
+      return false;
+    }
+
+    const version = this.getFileVersion();
+    if (version === null || version === this.fileVersion) {
+      return false;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, SessionRecord>;
+      this.sessions = new Map(Object.entries(raw));
+      this.fileVersion = version;
+      return true;
+    } catch (error: any) {
+      console.error("[SessionRegistry] Failed to read sessions file:", error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Apply a change on top of the latest file and write it back, holding the lock in between
+   * The change returns false if it didn't modify anything. Rejects if the lock can't be taken.
+   */
+  private async update(change: () => boolean): Promise<void> {
+    if (!this.filePath) {
+      change();
+      return;
+    }
+
+    await this.acquireLock();
+    try {
+      this.refresh();
+      if (change()) {
+        this.save();
+      }
+    } finally {
+      fs.rmSync(this.lockPath(), { force: true });
+    }
+  }
+
+  /**
+   * Take the write lock, retrying for up to LOCK_TIMEOUT_MS
+   */
+  private async acquireLock(): Promise<void> {
+    const lockPath = this.lockPath();
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+        fs.closeSync(fs.openSync(lockPath, "wx"));
+        return;
+      } catch (error: any) {
+        if (error.code !== "EEXIST") {
+          throw new Error(`Failed to lock sessions file: ${error.message}`);
+        }
+      }
+
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          console.warn("[SessionRegistry] Removing stale sessions file lock");
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch (error) {
+        continue; // released meanwhile
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error("Timed out waiting for the sessions file lock");
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  private lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private getFileVersion(): string | null {
+    try {
+      const stats = fs.statSync(this.filePath!);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Unique temp file: other instances may be writing next to us if the lock timed out
+      const tmpPath = `${this.filePath}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.sessions), null, 2), { mode: 0o600 });
+      fs.renameSync(tmpPath, this.filePath);
+      this.fileVersion = this.getFileVersion();
+    } catch (error: any) {
+      console.error("[SessionRegistry] Failed to write sessions file:", error.message);
+    }
+  }
+}
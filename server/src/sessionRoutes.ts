@@ -0,0 +1,133 @@
+import { Router, Request, Response } from "express";
+import { WebSocketRelay } from "./websocket";
+import { SessionRegistry } from "./sessionRegistry";
+import { SessionHistory, historyToCsv } from "./sessionHistory";
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 500;
+
+/**
+ * Parse an optional non-negative integer query parameter
+ * Returns null when the value is present but invalid.
+ */
+function parseQueryInt(value: unknown, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export function createSessionRoutes(
+  wsRelay: WebSocketRelay,
+  sessionRegistry: SessionRegistry,
+  sessionHistory: SessionHistory
+): Router {
+  const router = Router();
+
+  /**
+   * POST /api/sessions
+   * Create a session (body: { name? })
+   * Returns the owner secret (needed to join as host) and the join code to share with listeners.
+   * The owner secret is only returned here.
+   */
+  router.post("/api/sessions", async (req: Request, res: Response) => {
+    try {
+      const { name } = req.body ?? {};
+      const session = await sessionRegistry.create(typeof name === "string" ? name : null);
+      res.status(201).json(session);
+    } catch (error: any) {
+      console.error("Error creating session:", error);
+      res.status(503).json({ error: "Failed to create session", message: error.message });
+    }
+  });
+
+  /**
+   * GET /api/sessions/join/:joinCode
+   * Look up a session by join code
+   */
+  router.get("/api/sessions/join/:joinCode", (req: Request, res: Response) => {
+    if (!sessionRegistry.allowJoinCodeLookup(req.ip ?? "unknown")) {
+      return res.status(429).json({ error: "Too many join attempts, try again later" });
+    }
+
+    const record = sessionRegistry.findByJoinCode(req.params.joinCode);
+
+    if (!record) {
+      return res.status(404).json({ error: "Invalid join code" });
+    }
+
+    res.json({ sessionId: record.sessionId, name: record.name });
+  });
+
+  /**
+   * GET /api/sessions/:id/now-playing
+   * Latest host state for a session, advanced to the current time
+   */
+  router.get("/api/sessions/:id/now-playing", (req: Request, res: Response) => {
+    const nowPlaying = wsRelay.getNowPlaying(req.params.id);
+
+    if (!nowPlaying) {
+      return res.status(404).json({ error: "Nothing playing in this session" });
+    }
+
+    res.json({
+      sessionId: req.params.id,
+      state: nowPlaying.state,
+      match: nowPlaying.match,
+    });
+  });
+
+  /**
+   * GET /api/sessions/:id/history?limit=50&offset=0
+   * Tracks the host played, newest first
+   */
+  router.get("/api/sessions/:id/history", (req: Request, res: Response) => {
+    const sessionId = req.params.id;
+    if (!sessionRegistry.get(sessionId)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const limit = parseQueryInt(req.query.limit, DEFAULT_HISTORY_PAGE_SIZE);
+    const offset = parseQueryInt(req.query.offset, 0);
+    if (limit === null || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE || offset === null) {
+      return res.status(400).json({
+        error: `limit must be between 1 and ${MAX_HISTORY_PAGE_SIZE} and offset must be a non-negative integer`,
+      });
+    }
+
+    const entries = sessionHistory.getEntries(sessionId);
+    res.json({
+      sessionId,
+      total: entries.length,
+      offset,
+      limit,
+      entries: [...entries].reverse().slice(offset, offset + limit),
+    });
+  });
+
+  /**
+   * GET /api/sessions/:id/history/export?format=json|csv
+   * Full tracklist as a download, oldest first
+   */
+  router.get("/api/sessions/:id/history/export", (req: Request, res: Response) => {
+    const sessionId = req.params.id;
+    const record = sessionRegistry.get(sessionId);
+    if (!record) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const format = req.query.format ?? "json";
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({ error: "format must be json or csv" });
+    }
+
+    const entries = sessionHistory.getEntries(sessionId);
+    res.attachment(`session-${sessionId}-history.${format}`);
+    if (format === "csv") {
+      res.type("text/csv").send(historyToCsv(entries));
+    } else {
+      res.json({ sessionId, name: record.name, exportedAt: Date.now(), entries });
+    }
+  });
+
+  return router;
+}
@@ -1,5 +1,90 @@
-import axios, { AxiosInstance } from "axios";
-import { TokenInfo } from "./types";
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { TokenInfo, SpotifyPlaybackState, SpotifyDevice, SpotifyPlaylist } from "./types";
+import { TokenStore, MemoryTokenStore } from "./tokenStore";
+import { TrackQuery, SpotifyTrackCandidate, MatchResult, pickBestMatch, buildSearchQuery } from "./matcher";
+import { registry, Counter, Histogram } from "./metrics";
+import { CircuitBreaker, CircuitState } from "./circuitBreaker";
+import { DevicePreferences, PreferredDevice } from "./devicePreferences";
+
+const SEARCH_CANDIDATE_LIMIT = 10;
+const PLAYLIST_BATCH_SIZE = 100; // max tracks per "add items to playlist" call
+
+// Without a timeout a hung connection would never fail (or release a half-open circuit breaker's trial)
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Retries for rate limits (429) and, on idempotent calls, 5xx, network errors and timeouts
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const DEFAULT_RETRY_AFTER_MS = 1000; // 429 without a Retry-After header
+const MAX_RETRY_AFTER_WAIT_MS = 5000; // longer Retry-After values are surfaced to the caller instead of waited out
+
+// Per-listener circuit breaker (app-token calls share one)
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_OPEN_MS = 30000;
+const APP_CIRCUIT_KEY = "app";
+
+const spotifyRequests = registry.register(
+  new Counter("apple_spotify_sync_spotify_requests_total", "Spotify API calls by endpoint and HTTP status", [
+    "endpoint",
+    "status",
+  ])
+);
+const spotifyRequestDuration = registry.register(
+  new Histogram("apple_spotify_sync_spotify_request_duration_seconds", "Spotify API call latency", [
+    "endpoint",
+    "status",
+  ])
+);
+const tokenRefreshFailures = registry.register(
+  new Counter("apple_spotify_sync_spotify_token_refresh_failures_total", "Listener token refreshes that failed")
+);
+const spotifyRetries = registry.register(
+  new Counter("apple_spotify_sync_spotify_retries_total", "Spotify API calls retried, by endpoint and status", [
+    "endpoint",
+    "status",
+  ])
+);
+const circuitOpens = registry.register(
+  new Counter("apple_spotify_sync_spotify_circuit_opens_total", "Times a listener's Spotify circuit breaker opened")
+);
+
+/**
+ * Spotify can't be called right now: rate limited, or the caller's circuit breaker is open
+ */
+export class SpotifyUnavailableError extends Error {
+  public reason: "rate_limited" | "circuit_open";
+  public retryAfterMs: number;
+
+  constructor(reason: "rate_limited" | "circuit_open", retryAfterMs: number) {
+    super(
+      reason === "rate_limited"
+        ? `Spotify rate limit reached, retry in ${Math.ceil(retryAfterMs / 1000)}s`
+        : `Spotify calls paused for this listener, retry in ${Math.ceil(retryAfterMs / 1000)}s`
+    );
+    this.name = "SpotifyUnavailableError";
+    this.reason = reason;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Convert a Spotify track link, URI or bare id to spotify:track:ID format
+ * Returns null if the input is not recognizable as a track.
+ */
+export function toSpotifyTrackUri(input: string): string | null {
+  const value = input.trim();
+
+  const uriMatch = value.match(/^spotify:track:([A-Za-z0-9]{22})$/);
+  if (uriMatch) return `spotify:track:${uriMatch[1]}`;
+
+  // e.g. https://open.spotify.com/track/ID?si=... or https://open.spotify.com/intl-de/track/ID
+  const urlMatch = value.match(/^https?:\/\/open\.spotify\.com\/(?:[\w-]+\/)?track\/([A-Za-z0-9]{22})/);
+  if (urlMatch) return `spotify:track:${urlMatch[1]}`;
+
+  if (/^[A-Za-z0-9]{22}$/.test(value)) return `spotify:track:${value}`;
+
+  return null;
+}
 
 /**
  * Spotify API client and OAuth handler
@@ -8,16 +93,28 @@ export class SpotifyClient {
   private clientId: string;
   private clientSecret: string;
   private redirectUri: string;
-  private tokenStore: Map<string, TokenInfo> = new Map();
+  private tokenStore: TokenStore;
+  private devicePreferences: DevicePreferences;
   private apiClient: AxiosInstance;
+  private appToken: { accessToken: string; expiresAt: number } | null = null;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map(); // keyed by listenerId or APP_CIRCUIT_KEY
 
-  constructor(clientId: string, clientSecret: string, redirectUri: string) {
+  constructor(
+    clientId: string,
+    clientSecret: string,
+    redirectUri: string,
+    tokenStore: TokenStore = new MemoryTokenStore(),
+    devicePreferences: DevicePreferences = new DevicePreferences(null)
+  ) {
     this.clientId = clientId;
     this.clientSecret = clientSecret;
     this.redirectUri = redirectUri;
+    this.tokenStore = tokenStore;
+    this.devicePreferences = devicePreferences;
 
     this.apiClient = axios.create({
       baseURL: "https://api.spotify.com/v1",
+      timeout: REQUEST_TIMEOUT_MS,
       headers: {
         "Content-Type": "application/json",
       },
@@ -32,7 +129,7 @@ export class SpotifyClient {
       client_id: this.clientId,
       response_type: "code",
       redirect_uri: this.redirectUri,
-      scope: "user-modify-playback-state user-read-playback-state",
+      scope: "user-modify-playback-state user-read-playback-state playlist-modify-private playlist-modify-public",
       state: listenerId, // Use listenerId as state for verification
     });
 
@@ -46,19 +143,22 @@ export class SpotifyClient {
     try {
       console.log(`[Spotify OAuth] Exchanging code for tokens - listenerId: ${listenerId}, redirectUri: ${this.redirectUri}`);
       
-      const response = await axios.post(
-        "https://accounts.spotify.com/api/token",
-        new URLSearchParams({
-          grant_type: "authorization_code",
-          code: code,
-          redirect_uri: this.redirectUri,
-        }),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
-          },
-        }
+      const response = await this.request("/api/token", null, false, () =>
+        axios.post(
+          "https://accounts.spotify.com/api/token",
+          new URLSearchParams({
+            grant_type: "authorization_code",
+            code: code,
+            redirect_uri: this.redirectUri,
+          }),
+          {
+            timeout: REQUEST_TIMEOUT_MS,
+            headers: {
+              "Content-Type": "application/x-www-form-urlencoded",
+              Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
+            },
+          }
+        )
       );
 
       const tokenInfo: TokenInfo = {
@@ -100,6 +200,45 @@ export class SpotifyClient {
     return this.tokenStore.get(listenerId)!.accessToken;
   }
 
+  /**
+   * Get an app-level access token (client credentials flow)
+   * Not tied to any listener - only usable for catalog endpoints such as search.
+   */
+  public async getAppAccessToken(): Promise<string> {
+    // Refresh 1 minute before expiry
+    if (this.appToken && Date.now() < this.appToken.expiresAt - 60 * 1000) {
+      return this.appToken.accessToken;
+    }
+
+    try {
+      const response = await this.request("/api/token", null, false, () =>
+        axios.post(
+          "https://accounts.spotify.com/api/token",
+          new URLSearchParams({
+            grant_type: "client_credentials",
+          }),
+          {
+            timeout: REQUEST_TIMEOUT_MS,
+            headers: {
+              "Content-Type": "application/x-www-form-urlencoded",
+              Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
+            },
+          }
+        )
+      );
+
+      this.appToken = {
+        accessToken: response.data.access_token,
+        expiresAt: Date.now() + response.data.expires_in * 1000,
+      };
+
+      return this.appToken.accessToken;
+    } catch (error: any) {
+      console.error("Error getting app access token:", error.response?.data || error.message);
+      throw new Error("Failed to get app access token from Spotify");
+    }
+  }
+
   /**
    * Refresh access token using refresh token
    */
@@ -110,18 +249,21 @@ export class SpotifyClient {
     }
 
     try {
-      const response = await axios.post(
-        "https://accounts.spotify.com/api/token",
-        new URLSearchParams({
-          grant_type: "refresh_token",
-          refresh_token: tokenInfo.refreshToken,
-        }),
-        {
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-            Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
-          },
-        }
+      const response = await this.request("/api/token", null, false, () =>
+        axios.post(
+          "https://accounts.spotify.com/api/token",
+          new URLSearchParams({
+            grant_type: "refresh_token",
+            refresh_token: tokenInfo.refreshToken,
+          }),
+          {
+            timeout: REQUEST_TIMEOUT_MS,
+            headers: {
+              "Content-Type": "application/x-www-form-urlencoded",
+              Authorization: `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString("base64")}`,
+            },
+          }
+        )
       );
 
       const newTokenInfo: TokenInfo = {
@@ -134,44 +276,115 @@ export class SpotifyClient {
       console.log(`Tokens refreshed for listenerId: ${listenerId}`);
     } catch (error: any) {
       console.error("Error refreshing token:", error.response?.data || error.message);
-      // Remove invalid tokens
-      this.tokenStore.delete(listenerId);
-      throw new Error("Failed to refresh token. Please re-authenticate.");
+      tokenRefreshFailures.inc();
+      if (error instanceof SpotifyUnavailableError) throw error;
+      // Remove tokens Spotify rejected; keep them through outages so the next call can try again
+      const status = error.response?.status;
+      if (status === 400 || status === 401) {
+        this.tokenStore.delete(listenerId);
+        throw new Error("Failed to refresh token. Please re-authenticate.");
+      }
+      throw new Error("Failed to refresh token, Spotify is unavailable");
     }
   }
 
   /**
-   * Search for a track on Spotify
-   * Requires authentication - uses the listener's access token
-   * 
-   * TODO: Improve search matching - currently just searches by track name and uses top result.
-   * Consider adding artist matching, fuzzy matching, or confidence scoring for better accuracy.
+   * Search for a track on Spotify and return the best scoring candidate
+   * Uses the listener's access token, or the app-level token when listenerId is null
+   *
+   * Tries an exact ISRC lookup first when the query has one. Otherwise fetches
+   * several candidates (field-filtered search first, plain text as fallback)
+   * and scores them on title, artist, album and duration. Callers decide what
+   * confidence is good enough to play.
    */
-  public async searchTrack(listenerId: string, title: string): Promise<string | null> {
+  public async searchTrack(listenerId: string | null, query: TrackQuery): Promise<MatchResult | null> {
     try {
-      const accessToken = await this.getAccessToken(listenerId);
-      // Search by track name only, Spotify will return top-rated/most popular result
-      const response = await this.apiClient.get("/search", {
+      const accessToken = listenerId ? await this.getAccessToken(listenerId) : await this.getAppAccessToken();
+      const circuitKey = listenerId ?? APP_CIRCUIT_KEY;
+
+      if (query.isrc) {
+        const isrcCandidates = await this.searchCandidates(circuitKey, accessToken, `isrc:${query.isrc}`);
+        // Same recording may appear on several releases - prefer the closest one
+        const isrcMatch = pickBestMatch(query, isrcCandidates);
+        if (isrcMatch) {
+          return { ...isrcMatch, confidence: 1, method: "isrc" };
+        }
+      }
+
+      let candidates = await this.searchCandidates(circuitKey, accessToken, buildSearchQuery(query));
+      if (candidates.length === 0) {
+        // Field filters are strict - retry as a free-text search
+        candidates = await this.searchCandidates(circuitKey, accessToken, `${query.title} ${query.artist ?? ""}`.trim());
+      }
+
+      return pickBestMatch(query, candidates);
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      console.error("Error searching track:", error.response?.data || error.message);
+      throw new Error("Failed to search track on Spotify");
+    }
+  }
+
+  /**
+   * Look up a single track by URI using the app-level token
+   * Returns null if Spotify doesn't know the track.
+   */
+  public async getTrack(trackUri: string): Promise<SpotifyTrackCandidate | null> {
+    try {
+      const accessToken = await this.getAppAccessToken();
+      const trackId = trackUri.replace("spotify:track:", "");
+      const response = await this.request("/tracks/{id}", APP_CIRCUIT_KEY, true, () =>
+        this.apiClient.get(`/tracks/${trackId}`, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
+      );
+
+      return this.toCandidate(response.data);
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      if (error.response?.status === 404 || error.response?.status === 400) {
+        return null;
+      }
+      console.error("Error getting track:", error.response?.data || error.message);
+      throw new Error("Failed to get track from Spotify");
+    }
+  }
+
+  /**
+   * Run a Spotify track search and map results to match candidates
+   */
+  private async searchCandidates(
+    circuitKey: string,
+    accessToken: string,
+    q: string
+  ): Promise<SpotifyTrackCandidate[]> {
+    const response = await this.request("/search", circuitKey, true, () =>
+      this.apiClient.get("/search", {
         params: {
-          q: title,
+          q,
           type: "track",
-          limit: 1,
+          limit: SEARCH_CANDIDATE_LIMIT,
         },
         headers: {
           Authorization: `Bearer ${accessToken}`,
         },
-      });
+      })
+    );
 
-      const tracks = response.data.tracks?.items;
-      if (tracks && tracks.length > 0) {
-        return tracks[0].uri; // Returns spotify:track:ID format (top result)
-      }
+    const tracks: any[] = response.data.tracks?.items ?? [];
+    return tracks.map((track) => this.toCandidate(track));
+  }
 
-      return null;
-    } catch (error: any) {
-      console.error("Error searching track:", error.response?.data || error.message);
-      throw new Error("Failed to search track on Spotify");
-    }
+  private toCandidate(track: any): SpotifyTrackCandidate {
+    return {
+      uri: track.uri, // spotify:track:ID format
+      name: track.name,
+      artists: (track.artists ?? []).map((artist: any) => artist.name),
+      album: track.album?.name ?? "",
+      durationMs: track.duration_ms,
+    };
   }
 
   /**
@@ -180,11 +393,13 @@ export class SpotifyClient {
   public async getActiveDevice(listenerId: string): Promise<string | null> {
     try {
       const accessToken = await this.getAccessToken(listenerId);
-      const response = await this.apiClient.get("/me/player", {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
+      const response = await this.request("/me/player", listenerId, true, () =>
+        this.apiClient.get("/me/player", {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
+      );
 
       if (response.data && response.data.device) {
         return response.data.device.id;
@@ -201,8 +416,41 @@ export class SpotifyClient {
     }
   }
 
+  /**
+   * Get the listener's current Spotify playback state
+   * Returns null when nothing is playing on any device.
+   */
+  public async getPlaybackState(listenerId: string): Promise<SpotifyPlaybackState | null> {
+    try {
+      const accessToken = await this.getAccessToken(listenerId);
+      const response = await this.request("/me/player", listenerId, true, () =>
+        this.apiClient.get("/me/player", {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
+      );
+
+      if (response.status === 204 || !response.data) {
+        return null;
+      }
+
+      return {
+        isPlaying: !!response.data.is_playing,
+        progressMs: response.data.progress_ms ?? 0,
+        trackUri: response.data.item?.uri ?? null,
+        deviceId: response.data.device?.id ?? null,
+      };
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      console.error("Error getting playback state:", error.response?.data || error.message);
+      throw new Error("Failed to get playback state from Spotify");
+    }
+  }
+
   /**
    * Play a track on Spotify
+   * When no device is active, playback is first transferred to the listener's preferred device.
    */
   public async playTrack(
     listenerId: string,
@@ -210,49 +458,255 @@ export class SpotifyClient {
     positionMs: number
   ): Promise<void> {
     try {
-      const accessToken = await this.getAccessToken(listenerId);
+      try {
+        await this.startPlayback(listenerId, trackUri, positionMs, null);
+      } catch (error: any) {
+        // Idle devices (e.g. Spotify desktop after a while) drop out of "active" but can still be woken up
+        const preferred = this.devicePreferences.get(listenerId);
+        if (error.response?.status !== 404 || !preferred) {
+          throw error;
+        }
 
-      await this.apiClient.put(
+        console.log(`No active Spotify device for ${listenerId}, transferring to "${preferred.deviceName}"`);
+        await this.sendTransfer(listenerId, preferred.deviceId, false);
+        await this.startPlayback(listenerId, trackUri, positionMs, preferred.deviceId);
+      }
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      if (error.response?.status === 403) {
+        throw new Error("Premium account required");
+      }
+      if (error.response?.status === 404) {
+        throw new Error("No active device found. Please open Spotify on a device.");
+      }
+      console.error("Error playing track:", error.response?.data || error.message);
+      throw new Error("Failed to play track on Spotify");
+    }
+  }
+
+  private async startPlayback(
+    listenerId: string,
+    trackUri: string,
+    positionMs: number,
+    deviceId: string | null
+  ): Promise<void> {
+    const accessToken = await this.getAccessToken(listenerId);
+
+    await this.request("/me/player/play", listenerId, true, () =>
+      this.apiClient.put(
         "/me/player/play",
         {
           uris: [trackUri],
           position_ms: positionMs,
         },
         {
+          params: deviceId ? { device_id: deviceId } : undefined,
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
         }
+      )
+    );
+  }
+
+  /**
+   * Add a track to the end of the listener's Spotify queue
+   * Only rate limits are retried: retrying after a 5xx or lost response could queue the track twice.
+   */
+  public async addToQueue(listenerId: string, trackUri: string): Promise<void> {
+    try {
+      const accessToken = await this.getAccessToken(listenerId);
+
+      await this.request("/me/player/queue", listenerId, false, () =>
+        this.apiClient.post("/me/player/queue", null, {
+          params: { uri: trackUri },
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
       );
     } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
       if (error.response?.status === 403) {
         throw new Error("Premium account required");
       }
       if (error.response?.status === 404) {
         throw new Error("No active device found. Please open Spotify on a device.");
       }
-      console.error("Error playing track:", error.response?.data || error.message);
-      throw new Error("Failed to play track on Spotify");
+      console.error("Error adding track to queue:", error.response?.data || error.message);
+      throw new Error("Failed to add track to Spotify queue");
     }
   }
 
   /**
-   * Pause playback on Spotify
+   * List the listener's Spotify Connect devices
    */
-  public async pausePlayback(listenerId: string): Promise<void> {
+  public async getDevices(listenerId: string): Promise<SpotifyDevice[]> {
     try {
       const accessToken = await this.getAccessToken(listenerId);
+      const response = await this.request("/me/player/devices", listenerId, true, () =>
+        this.apiClient.get("/me/player/devices", {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        })
+      );
+
+      const devices: any[] = response.data?.devices ?? [];
+      return devices
+        .filter((device) => device.id)
+        .map((device) => ({
+          id: device.id,
+          name: device.name,
+          type: device.type,
+          isActive: !!device.is_active,
+          isRestricted: !!device.is_restricted,
+          volumePercent: device.volume_percent ?? null,
+        }));
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      console.error("Error getting devices:", error.response?.data || error.message);
+      throw new Error("Failed to get devices from Spotify");
+    }
+  }
 
-      await this.apiClient.put(
-        "/me/player/pause",
-        {},
+  /**
+   * Move playback to a device
+   * play: false keeps the current play/pause state.
+   */
+  public async transferPlayback(listenerId: string, deviceId: string, play: boolean): Promise<void> {
+    try {
+      await this.sendTransfer(listenerId, deviceId, play);
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      if (error.response?.status === 403) {
+        throw new Error("Premium account required");
+      }
+      if (error.response?.status === 404) {
+        throw new Error("Spotify device not found. Please open Spotify on that device.");
+      }
+      console.error("Error transferring playback:", error.response?.data || error.message);
+      throw new Error("Failed to transfer playback on Spotify");
+    }
+  }
+
+  private async sendTransfer(listenerId: string, deviceId: string, play: boolean): Promise<void> {
+    const accessToken = await this.getAccessToken(listenerId);
+
+    await this.request("/me/player (transfer)", listenerId, true, () =>
+      this.apiClient.put(
+        "/me/player",
+        {
+          device_ids: [deviceId],
+          play,
+        },
         {
           headers: {
             Authorization: `Bearer ${accessToken}`,
           },
         }
+      )
+    );
+  }
+
+  /**
+   * Create a private playlist in the listener's account
+   */
+  public async createPlaylist(listenerId: string, name: string, description: string): Promise<SpotifyPlaylist> {
+    try {
+      const accessToken = await this.getAccessToken(listenerId);
+      const headers = { Authorization: `Bearer ${accessToken}` };
+
+      const user = await this.request("/me", listenerId, true, () => this.apiClient.get("/me", { headers }));
+      const response = await this.request("/users/{id}/playlists", listenerId, false, () =>
+        this.apiClient.post(
+          `/users/${encodeURIComponent(user.data.id)}/playlists`,
+          { name, description, public: false },
+          { headers }
+        )
+      );
+
+      return {
+        id: response.data.id,
+        uri: response.data.uri,
+        url: response.data.external_urls?.spotify ?? `https://open.spotify.com/playlist/${response.data.id}`,
+      };
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      if (error.response?.status === 403) {
+        // Tokens granted before playlist scopes were requested
+        throw new Error("Missing playlist permission. Please authenticate with Spotify again.");
+      }
+      console.error("Error creating playlist:", error.response?.data || error.message);
+      throw new Error("Failed to create playlist on Spotify");
+    }
+  }
+
+  /**
+   * Append tracks to a playlist in order, in batches of 100
+   */
+  public async addTracksToPlaylist(listenerId: string, playlistId: string, trackUris: string[]): Promise<void> {
+    try {
+      const accessToken = await this.getAccessToken(listenerId);
+
+      for (let start = 0; start < trackUris.length; start += PLAYLIST_BATCH_SIZE) {
+        const uris = trackUris.slice(start, start + PLAYLIST_BATCH_SIZE);
+        await this.request("/playlists/{id}/tracks", listenerId, false, () =>
+          this.apiClient.post(
+            `/playlists/${encodeURIComponent(playlistId)}/tracks`,
+            { uris },
+            {
+              headers: {
+                Authorization: `Bearer ${accessToken}`,
+              },
+            }
+          )
+        );
+      }
+    } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
+      if (error.response?.status === 403) {
+        throw new Error("Missing playlist permission. Please authenticate with Spotify again.");
+      }
+      console.error("Error adding tracks to playlist:", error.response?.data || error.message);
+      throw new Error("Failed to add tracks to Spotify playlist");
+    }
+  }
+
+  public getPreferredDevice(listenerId: string): PreferredDevice | null {
+    return this.devicePreferences.get(listenerId);
+  }
+
+  public setPreferredDevice(listenerId: string, device: SpotifyDevice): PreferredDevice {
+    const preferred: PreferredDevice = { deviceId: device.id, deviceName: device.name, updatedAt: Date.now() };
+    this.devicePreferences.set(listenerId, preferred);
+    return preferred;
+  }
+
+  public clearPreferredDevice(listenerId: string): boolean {
+    return this.devicePreferences.delete(listenerId);
+  }
+
+  /**
+   * Pause playback on Spotify
+   */
+  public async pausePlayback(listenerId: string): Promise<void> {
+    try {
+      const accessToken = await this.getAccessToken(listenerId);
+
+      await this.request("/me/player/pause", listenerId, true, () =>
+        this.apiClient.put(
+          "/me/player/pause",
+          {},
+          {
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+            },
+          }
+        )
       );
     } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
       if (error.response?.status === 403) {
         throw new Error("Premium account required");
       }
@@ -271,16 +725,19 @@ export class SpotifyClient {
     try {
       const accessToken = await this.getAccessToken(listenerId);
 
-      await this.apiClient.put(
-        `/me/player/seek?position_ms=${positionMs}`,
-        {},
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
+      await this.request("/me/player/seek", listenerId, true, () =>
+        this.apiClient.put(
+          `/me/player/seek?position_ms=${positionMs}`,
+          {},
+          {
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+            },
+          }
+        )
       );
     } catch (error: any) {
+      if (error instanceof SpotifyUnavailableError) throw error;
       if (error.response?.status === 403) {
         throw new Error("Premium account required");
       }
@@ -292,6 +749,97 @@ export class SpotifyClient {
     }
   }
 
+  /**
+   * Get the circuit breaker state for a listener's Spotify calls (null: app-token calls)
+   */
+  public getCircuitState(listenerId: string | null): CircuitState {
+    const breaker = this.circuitBreakers.get(listenerId ?? APP_CIRCUIT_KEY);
+    return breaker ? breaker.getState() : { status: "closed", consecutiveFailures: 0, retryAtMs: null };
+  }
+
+  /**
+   * Shared request layer for Spotify calls
+   * Waits out short Retry-After periods on 429, retries idempotent calls on 5xx and network errors
+   * with jittered backoff, and fails fast with SpotifyUnavailableError while the circuit is open.
+   * Other HTTP errors are passed through untouched for the caller to map.
+   */
+  private async request<T>(
+    endpoint: string,
+    circuitKey: string | null,
+    idempotent: boolean,
+    send: () => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    const breaker = circuitKey ? this.getCircuitBreaker(circuitKey) : null;
+    if (breaker && !breaker.tryAcquire()) {
+      const { retryAtMs } = breaker.getState();
+      throw new SpotifyUnavailableError("circuit_open", Math.max(0, (retryAtMs ?? Date.now()) - Date.now()));
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const stopTimer = spotifyRequestDuration.startTimer();
+      try {
+        const response = await send();
+        const status = String(response.status);
+        stopTimer({ endpoint, status });
+        spotifyRequests.inc({ endpoint, status });
+        breaker?.recordSuccess();
+        return response;
+      } catch (error: any) {
+        const httpStatus: number | undefined = error.response?.status;
+        const timedOut = error.code === "ECONNABORTED" || error.code === "ETIMEDOUT";
+        const status = httpStatus ? String(httpStatus) : timedOut ? "timeout" : "error";
+        stopTimer({ endpoint, status });
+        spotifyRequests.inc({ endpoint, status });
+
+        // Spotify answered and rejected the request itself - nothing to retry, and not an outage
+        // (no response at all - network error or timeout - counts as transient)
+        const transient = httpStatus === undefined || httpStatus === 429 || httpStatus >= 500;
+        if (!transient) {
+          breaker?.recordSuccess();
+          throw error;
+        }
+
+        const retryAfterMs = httpStatus === 429 ? this.getRetryAfterMs(error) : null;
+        const retryable = httpStatus === 429 ? retryAfterMs! <= MAX_RETRY_AFTER_WAIT_MS : idempotent;
+        if (attempt >= MAX_RETRIES || !retryable) {
+          // A long Retry-After holds every call for this listener until Spotify accepts requests again
+          if (breaker?.recordFailure(retryAfterMs !== null && !retryable ? retryAfterMs : null)) {
+            circuitOpens.inc();
+            const { consecutiveFailures } = breaker!.getState();
+            console.warn(`Spotify circuit opened for ${circuitKey} (${consecutiveFailures} consecutive failures)`);
+          }
+          if (retryAfterMs !== null) {
+            throw new SpotifyUnavailableError("rate_limited", retryAfterMs);
+          }
+          throw error;
+        }
+
+        // 429: wait as told; otherwise exponential backoff with jitter so listeners don't retry in lockstep
+        const delayMs = retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt * (0.5 + Math.random() / 2);
+        spotifyRetries.inc({ endpoint, status });
+        console.warn(`Spotify ${endpoint} failed (${status}), retrying in ${Math.round(delayMs)}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  private getCircuitBreaker(circuitKey: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(circuitKey);
+    if (!breaker) {
+      breaker = new CircuitBreaker(CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_OPEN_MS);
+      this.circuitBreakers.set(circuitKey, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Read Retry-After (seconds) from a 429 response
+   */
+  private getRetryAfterMs(error: any): number {
+    const seconds = parseFloat(error.response?.headers?.["retry-after"]);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_RETRY_AFTER_MS;
+  }
+
   /**
    * Check if a listener has authenticated
    */
@@ -0,0 +1,358 @@
+import { SpotifyClient, SpotifyUnavailableError } from "./spotify";
+import { TrackResolver } from "./trackResolver";
+import { ApplePlaybackState, TrackMatchInfo } from "./types";
+import { CircuitState } from "./circuitBreaker";
+
+const SEEK_THROTTLE_MS = 1000; // Max seek calls every 1 second
+const DRIFT_THRESHOLD_MS = 750; // Seek if drift > 750ms
+
+/**
+ * Sync state for a listener driven by the server instead of the extension
+ */
+interface HeadlessListener {
+  listenerId: string;
+  sessionId: string;
+  registeredAt: number;
+  lastAppliedTrackId: string | null;
+  lastAppliedUri: string | null;
+  lastAppliedPositionMs: number; // position we last told Spotify to be at
+  lastAppliedAtMs: number; // when we told it
+  lastSeekTime: number;
+  paused: boolean;
+  lastError: string | null;
+  // Latest-wins queue: only the newest host state is applied once the previous call finishes
+  nextUpdate: { state: ApplePlaybackState; match: TrackMatchInfo | null } | null;
+  running: boolean;
+}
+
+/**
+ * Public view of a headless listener registration
+ */
+export interface HeadlessListenerStatus {
+  listenerId: string;
+  sessionId: string;
+  registeredAt: number;
+  lastAppliedTrackId: string | null;
+  lastAppliedUri: string | null;
+  paused: boolean;
+  lastError: string | null;
+  spotifyCircuit: CircuitState; // breaker for this listener's Spotify calls
+}
+
+type SessionFollowListener = (sessionId: string, following: boolean) => void;
+
+/**
+ * Applies host playback to registered listeners' Spotify accounts directly
+ * Lets listeners sync without running the browser extension (e.g. on phones).
+ */
+export class ListenerSyncWorker {
+  private spotifyClient: SpotifyClient;
+  private trackResolver: TrackResolver;
+  private listeners: Map<string, HeadlessListener> = new Map(); // keyed by listenerId
+  private followListeners: SessionFollowListener[] = [];
+
+  constructor(spotifyClient: SpotifyClient, trackResolver: TrackResolver) {
+    this.spotifyClient = spotifyClient;
+    this.trackResolver = trackResolver;
+  }
+
+  /**
+   * Register a listener for server-driven sync in a session
+   * A listener can only follow one session; registering again moves them.
+   */
+  public register(listenerId: string, sessionId: string): HeadlessListenerStatus {
+    if (!this.spotifyClient.hasTokens(listenerId)) {
+      throw new Error("Not authenticated. Please authenticate with Spotify first via /auth/spotify/login");
+    }
+
+    const listener: HeadlessListener = {
+      listenerId,
+      sessionId,
+      registeredAt: Date.now(),
+      lastAppliedTrackId: null,
+      lastAppliedUri: null,
+      lastAppliedPositionMs: 0,
+      lastAppliedAtMs: 0,
+      lastSeekTime: 0,
+      paused: false,
+      lastError: null,
+      nextUpdate: null,
+      running: false,
+    };
+    const previous = this.listeners.get(listenerId);
+    const followed = this.hasSessionListeners(sessionId);
+    this.listeners.set(listenerId, listener);
+    console.log(`[SyncWorker] Listener ${listenerId} registered for headless sync in session ${sessionId}`);
+
+    if (previous && previous.sessionId !== sessionId && !this.hasSessionListeners(previous.sessionId)) {
+      this.notifyFollow(previous.sessionId, false);
+    }
+    if (!followed) {
+      this.notifyFollow(sessionId, true);
+    }
+    return this.toStatus(listener);
+  }
+
+  /**
+   * Stop server-driven sync for a listener
+   * Returns false if the listener wasn't registered.
+   */
+  public unregister(listenerId: string): boolean {
+    const listener = this.listeners.get(listenerId);
+    if (!listener) return false;
+
+    // Drop any queued update so an in-flight drain stops after its current call
+    listener.nextUpdate = null;
+    this.listeners.delete(listenerId);
+    console.log(`[SyncWorker] Listener ${listenerId} unregistered from headless sync`);
+
+    if (!this.hasSessionListeners(listener.sessionId)) {
+      this.notifyFollow(listener.sessionId, false);
+    }
+    return true;
+  }
+
+  /**
+   * Whether any headless listener follows a session
+   */
+  public hasSessionListeners(sessionId: string): boolean {
+    for (const listener of this.listeners.values()) {
+      if (listener.sessionId === sessionId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Register a callback for when a session gets its first headless listener (true) or loses its last (false)
+   */
+  public onSessionFollowChange(listener: SessionFollowListener): void {
+    this.followListeners.push(listener);
+  }
+
+  public getStatus(listenerId: string): HeadlessListenerStatus | null {
+    const listener = this.listeners.get(listenerId);
+    return listener ? this.toStatus(listener) : null;
+  }
+
+  /**
+   * Headless listeners following a session
+   */
+  public getSessionListeners(sessionId: string): HeadlessListenerStatus[] {
+    return [...this.listeners.values()]
+      .filter((listener) => listener.sessionId === sessionId)
+      .map((listener) => this.toStatus(listener));
+  }
+
+  /**
+   * Stop server-driven sync for everyone following a session
+   * Returns the number of listeners unregistered.
+   */
+  public unregisterSession(sessionId: string): number {
+    let count = 0;
+    for (const listener of [...this.listeners.values()]) {
+      if (listener.sessionId === sessionId && this.unregister(listener.listenerId)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Apply a host state update to every headless listener in the session
+   */
+  public handleHostState(sessionId: string, state: ApplePlaybackState, match: TrackMatchInfo | null): void {
+    for (const listener of this.listeners.values()) {
+      if (listener.sessionId !== sessionId) continue;
+
+      listener.nextUpdate = { state, match };
+      if (!listener.running) {
+        this.drain(listener);
+      }
+    }
+  }
+
+  /**
+   * Forget the applied track after a match correction so the next host update replays it
+   */
+  public handleMatchUpdated(sessionId: string, appleTrackId: string): void {
+    for (const listener of this.listeners.values()) {
+      if (listener.sessionId === sessionId && listener.lastAppliedTrackId === appleTrackId) {
+        listener.lastAppliedTrackId = null;
+      }
+    }
+  }
+
+  /**
+   * Pause headless listeners whose host disconnected and didn't come back
+   * The next host STATE_UPDATE resumes them.
+   */
+  public handleHostLost(sessionId: string): void {
+    for (const listener of this.listeners.values()) {
+      if (listener.sessionId !== sessionId || listener.paused || !listener.lastAppliedUri) continue;
+
+      listener.paused = true;
+      this.spotifyClient.pausePlayback(listener.listenerId).catch((error) => {
+        listener.lastError = error.message;
+        console.error(`[SyncWorker] Failed to pause listener ${listener.listenerId}:`, error.message);
+      });
+    }
+  }
+
+  private notifyFollow(sessionId: string, following: boolean): void {
+    for (const listener of this.followListeners) {
+      try {
+        listener(sessionId, following);
+      } catch (error) {
+        console.error("[SyncWorker] Session follow listener failed:", error);
+      }
+    }
+  }
+
+  private async drain(listener: HeadlessListener): Promise<void> {
+    listener.running = true;
+    while (listener.nextUpdate) {
+      const { state, match } = listener.nextUpdate;
+      listener.nextUpdate = null;
+      try {
+        await this.apply(listener, state, match);
+        listener.lastError = null;
+      } catch (error: any) {
+        listener.lastError = error.message;
+        console.error(`[SyncWorker] Failed to sync listener ${listener.listenerId}:`, error.message);
+      }
+    }
+    listener.running = false;
+  }
+
+  private async apply(
+    listener: HeadlessListener,
+    hostState: ApplePlaybackState,
+    match: TrackMatchInfo | null
+  ): Promise<void> {
+    // Ignore if no track playing
+    if (!hostState.trackId || !hostState.title) {
+      return;
+    }
+
+    const now = Date.now();
+    const isPlaying = hostState.playbackState === "playing";
+    // Relay stamps every state in server time, which is this process's clock
+    const dt = now - (hostState.serverTimestampMs ?? hostState.hostTimestampMs);
+    const estimatedHostPosMs = Math.max(
+      0,
+      isPlaying ? hostState.positionSec * 1000 + dt : hostState.positionSec * 1000
+    );
+
+    // Track changed
+    if (hostState.trackId !== listener.lastAppliedTrackId) {
+      listener.lastAppliedTrackId = hostState.trackId;
+      listener.lastAppliedUri = null;
+
+      let trackUri: string | null;
+      try {
+        trackUri = await this.resolveTrackUri(listener, hostState, match);
+        if (!trackUri) {
+          return;
+        }
+
+        console.log(`[SyncWorker] Playing "${hostState.title}" for listener ${listener.listenerId}`);
+        await this.spotifyClient.playTrack(listener.listenerId, trackUri, estimatedHostPosMs);
+      } catch (error) {
+        // Rate limited or circuit open: try the track change again on the next host update
+        if (error instanceof SpotifyUnavailableError) {
+          listener.lastAppliedTrackId = null;
+        }
+        throw error;
+      }
+      listener.lastAppliedUri = trackUri;
+      this.markApplied(listener, estimatedHostPosMs);
+      listener.paused = false;
+
+      if (!isPlaying) {
+        await this.spotifyClient.pausePlayback(listener.listenerId);
+        listener.paused = true;
+      }
+      return;
+    }
+
+    // Nothing playable for this track (no confident match)
+    if (!listener.lastAppliedUri) {
+      return;
+    }
+
+    // Same track - handle play/pause and seek
+    if (!isPlaying) {
+      if (!listener.paused) {
+        await this.spotifyClient.pausePlayback(listener.listenerId);
+        listener.paused = true;
+      }
+      return;
+    }
+
+    if (listener.paused) {
+      // Host resumed - restart at the host position
+      await this.spotifyClient.playTrack(listener.listenerId, listener.lastAppliedUri, estimatedHostPosMs);
+      this.markApplied(listener, estimatedHostPosMs);
+      listener.paused = false;
+      return;
+    }
+
+    const expectedPosMs = listener.lastAppliedPositionMs + (now - listener.lastAppliedAtMs);
+    const drift = Math.abs(expectedPosMs - estimatedHostPosMs);
+    if (drift > DRIFT_THRESHOLD_MS && now - listener.lastSeekTime >= SEEK_THROTTLE_MS) {
+      await this.spotifyClient.seekToPosition(listener.listenerId, estimatedHostPosMs);
+      this.markApplied(listener, estimatedHostPosMs);
+      listener.lastSeekTime = now;
+    }
+  }
+
+  /**
+   * Use the relay's match when it has one, otherwise resolve with the listener's token
+   */
+  private async resolveTrackUri(
+    listener: HeadlessListener,
+    hostState: ApplePlaybackState,
+    match: TrackMatchInfo | null
+  ): Promise<string | null> {
+    if (match && match.status === "matched" && match.spotifyUri) {
+      return match.spotifyUri;
+    }
+
+    if (match && (match.status === "low_confidence" || match.status === "not_found")) {
+      console.warn(`[SyncWorker] No confident match for "${hostState.title}" (${match.status})`);
+      return null;
+    }
+
+    const result = await this.trackResolver.resolve(listener.listenerId, hostState.trackId, {
+      title: hostState.title!,
+      artist: hostState.artist,
+      album: hostState.album,
+      durationSec: hostState.durationSec,
+      isrc: hostState.isrc,
+    });
+    if (result.status !== "matched" || !result.match) {
+      console.warn(`[SyncWorker] No confident match for "${hostState.title}" (${result.status})`);
+      return null;
+    }
+
+    return result.match.spotifyUri;
+  }
+
+  private markApplied(listener: HeadlessListener, positionMs: number): void {
+    listener.lastAppliedPositionMs = positionMs;
+    listener.lastAppliedAtMs = Date.now();
+  }
+
+  private toStatus(listener: HeadlessListener): HeadlessListenerStatus {
+    return {
+      listenerId: listener.listenerId,
+      sessionId: listener.sessionId,
+      registeredAt: listener.registeredAt,
+      lastAppliedTrackId: listener.lastAppliedTrackId,
+      lastAppliedUri: listener.lastAppliedUri,
+      paused: listener.paused,
+      lastError: listener.lastError,
+      spotifyCircuit: this.spotifyClient.getCircuitState(listener.listenerId),
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { TokenInfo } from "./types";
+
+/**
+ * Storage backend for per-listener Spotify tokens
+ */
+export interface TokenStore {
+  get(listenerId: string): TokenInfo | undefined;
+  set(listenerId: string, tokenInfo: TokenInfo): void;
+  delete(listenerId: string): void;
+  has(listenerId: string): boolean;
+}
+
+/**
+ * In-memory token store (tokens are lost on server restart)
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: Map<string, TokenInfo> = new Map();
+
+  public get(listenerId: string): TokenInfo | undefined {
+    return this.tokens.get(listenerId);
+  }
+
+  public set(listenerId: string, tokenInfo: TokenInfo): void {
+    this.tokens.set(listenerId, tokenInfo);
+  }
+
+  public delete(listenerId: string): void {
+    this.tokens.delete(listenerId);
+  }
+
+  public has(listenerId: string): boolean {
+    return this.tokens.has(listenerId);
+  }
+}
+
+/**
+ * Token record as written to disk (refresh token is encrypted)
+ */
+interface StoredToken {
+  accessToken: string;
+  encryptedRefreshToken: string; // base64(iv | authTag | ciphertext)
+  expiresAt: number;
+}
+
+/**
+ * JSON file-backed token store
+ * Keeps an in-memory copy and rewrites the file on every change.
+ * Refresh tokens are encrypted at rest with AES-256-GCM.
+ */
+export class FileTokenStore implements TokenStore {
+  private filePath: string;
+  private key: Buffer;
+  private tokens: Map<string, TokenInfo> = new Map();
+
+  constructor(filePath: string, secret: string) {
+    this.filePath = filePath;
+    // Derive a fixed-length key so any secret string can be used
+    this.key = crypto.createHash("sha256").update(secret).digest();
+    this.load();
+  }
+
+  public get(listenerId: string): TokenInfo | undefined {
+    return this.tokens.get(listenerId);
+  }
+
+  public set(listenerId: string, tokenInfo: TokenInfo): void {
+    this.tokens.set(listenerId, tokenInfo);
+    this.save();
+  }
+
+  public delete(listenerId: string): void {
+    if (this.tokens.delete(listenerId)) {
+      this.save();
+    }
+  }
+
+  public has(listenerId: string): boolean {
+    return this.tokens.has(listenerId);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Record<string, StoredToken>;
+      for (const [listenerId, stored] of Object.entries(raw)) {
+        try {
+          this.tokens.set(listenerId, {
+            accessToken: stored.accessToken,
+            refreshToken: this.decrypt(stored.encryptedRefreshToken),
+            expiresAt: stored.expiresAt,
+          });
+        } catch (error: any) {
+          // Wrong key or corrupted entry - listener will need to re-authenticate
+          console.error(`[TokenStore] Could not decrypt tokens for listenerId: ${listenerId}`);
+        }
+      }
+      console.log(`[TokenStore] Loaded tokens for ${this.tokens.size} listener(s) from ${this.filePath}`);
+    } catch (error: any) {
+      console.error("[TokenStore] Failed to read token file:", error.message);
+    }
+  }
+
+  private save(): void {
+    const out: Record<string, StoredToken> = {};
+    for (const [listenerId, tokenInfo] of this.tokens) {
+      out[listenerId] = {
+        accessToken: tokenInfo.accessToken,
+        encryptedRefreshToken: this.encrypt(tokenInfo.refreshToken),
+        expiresAt: tokenInfo.expiresAt,
+      };
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write to a temp file and rename so a crash never leaves a half-written file
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(out, null, 2), { mode: 0o600 });
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error: any) {
+      console.error("[TokenStore] Failed to write token file:", error.message);
+    }
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+  }
+
+  private decrypt(encoded: string): string {
+    const data = Buffer.from(encoded, "base64");
+    const iv = data.subarray(0, 12);
+    const authTag = data.subarray(12, 28);
+    const ciphertext = data.subarray(28);
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+  }
+}
@@ -0,0 +1,149 @@
+import { SpotifyClient } from "./spotify";
+import { MatchCache, CachedMatch } from "./matchCache";
+import { MatchOverrides } from "./matchOverrides";
+import { TrackQuery, DEFAULT_CONFIDENCE_THRESHOLD } from "./matcher";
+import { registry, Counter } from "./metrics";
+
+// source: override / cache (hits), shared (joined a search in flight) or search (miss)
+// status: matched / low_confidence / not_found
+const trackMatches = registry.register(
+  new Counter("apple_spotify_sync_track_matches_total", "Track resolutions by source and outcome", ["source", "status"])
+);
+
+/**
+ * Outcome of resolving an Apple track to Spotify
+ */
+export interface ResolveResult {
+  status: "matched" | "low_confidence" | "not_found";
+  match: CachedMatch | null; // best candidate (also set for low_confidence)
+  fromCache: boolean;
+}
+
+/**
+ * Resolves Apple Music tracks to Spotify URIs
+ * Consults manual overrides, then the shared match cache, before searching.
+ * Search results are cached, and concurrent misses for the same track share one search.
+ */
+export class TrackResolver {
+  private spotifyClient: SpotifyClient;
+  private matchCache: MatchCache;
+  private matchOverrides: MatchOverrides;
+  private confidenceThreshold: number;
+  private pending: Map<string, Promise<ResolveResult>> = new Map(); // searches in flight, by apple:/isrc: key
+
+  constructor(
+    spotifyClient: SpotifyClient,
+    matchCache: MatchCache,
+    matchOverrides: MatchOverrides,
+    confidenceThreshold: number = DEFAULT_CONFIDENCE_THRESHOLD
+  ) {
+    this.spotifyClient = spotifyClient;
+    this.matchCache = matchCache;
+    this.matchOverrides = matchOverrides;
+    this.confidenceThreshold = confidenceThreshold;
+  }
+
+  /**
+   * Resolve a track, searching on a cache miss
+   * Searches with the listener's token, or the app-level token when listenerId is null.
+   */
+  public async resolve(
+    listenerId: string | null,
+    appleTrackId: string | null | undefined,
+    query: TrackQuery
+  ): Promise<ResolveResult> {
+    const override = this.matchOverrides.get(appleTrackId);
+    if (override) {
+      trackMatches.inc({ source: "override", status: "matched" });
+      return {
+        status: "matched",
+        match: {
+          spotifyUri: override.spotifyUri,
+          confidence: 1,
+          method: "manual",
+          spotifyTitle: override.spotifyTitle,
+          spotifyArtists: override.spotifyArtists,
+          cachedAt: override.createdAt,
+        },
+        fromCache: true,
+      };
+    }
+
+    const cached = this.matchCache.get(appleTrackId, query.isrc);
+    if (cached) {
+      const status = this.statusFor(cached);
+      trackMatches.inc({ source: "cache", status });
+      return { status, match: cached, fromCache: true };
+    }
+
+    // Everyone in a session asks for a new track at once - only the first one searches
+    const keys = this.pendingKeys(appleTrackId, query.isrc);
+    const inFlight = keys.map((key) => this.pending.get(key)).find((search) => search !== undefined);
+    if (inFlight) {
+      try {
+        const shared = await inFlight;
+        trackMatches.inc({ source: "shared", status: shared.status });
+        return { ...shared, fromCache: true };
+      } catch (error) {
+        // It ran with the first caller's Spotify account, so its failure is theirs - resolve with ours
+        for (const key of keys) {
+          if (this.pending.get(key) === inFlight) {
+            this.pending.delete(key);
+          }
+        }
+        return this.resolve(listenerId, appleTrackId, query);
+      }
+    }
+
+    const search = this.search(listenerId, appleTrackId, query);
+    for (const key of keys) {
+      this.pending.set(key, search);
+    }
+    try {
+      return await search;
+    } finally {
+      for (const key of keys) {
+        if (this.pending.get(key) === search) {
+          this.pending.delete(key);
+        }
+      }
+    }
+  }
+
+  private async search(
+    listenerId: string | null,
+    appleTrackId: string | null | undefined,
+    query: TrackQuery
+  ): Promise<ResolveResult> {
+    const result = await this.spotifyClient.searchTrack(listenerId, query);
+    if (!result) {
+      trackMatches.inc({ source: "search", status: "not_found" });
+      return { status: "not_found", match: null, fromCache: false };
+    }
+
+    const match: CachedMatch = {
+      spotifyUri: result.uri,
+      confidence: result.confidence,
+      method: result.method,
+      spotifyTitle: result.candidate.name,
+      spotifyArtists: result.candidate.artists,
+      cachedAt: Date.now(),
+    };
+    this.matchCache.set(appleTrackId, query.isrc, match);
+
+    const status = this.statusFor(match);
+    trackMatches.inc({ source: "search", status });
+    return { status, match, fromCache: false };
+  }
+
+  private pendingKeys(appleTrackId: string | null | undefined, isrc: string | null | undefined): string[] {
+    const keys: string[] = [];
+    if (appleTrackId) keys.push(`apple:${appleTrackId}`);
+    if (isrc) keys.push(`isrc:${isrc.toUpperCase()}`);
+    return keys;
+  }
+
+  private statusFor(match: CachedMatch): "matched" | "low_confidence" {
+    return match.confidence >= this.confidenceThreshold ? "matched" : "low_confidence";
+  }
+}
@@ -1,6 +1,161 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { Server as HttpServer } from "http";
-import { ClientMeta, WsMessage, ApplePlaybackState } from "./types";
+import { Server as HttpServer, IncomingMessage } from "http";
+import { randomUUID, randomBytes } from "crypto";
+import {
+  ClientMeta,
+  WsMessage,
+  SequencedWsMessage,
+  ApplePlaybackState,
+  TrackMatchInfo,
+  UpcomingTrack,
+  MemberInfo,
+  HandoffReason,
+  HostChangeReason,
+} from "./types";
+import { TrackResolver } from "./trackResolver";
+import { ListenerSyncWorker } from "./syncWorker";
+import { SessionRegistry } from "./sessionRegistry";
+import { RateLimiter } from "./rateLimiter";
+import { SessionBroker, BrokerEnvelope, BrokerHandler, InMemoryBroker } from "./broker";
+import { SessionHistory } from "./sessionHistory";
+import { registry, Counter, Gauge, Histogram } from "./metrics";
+
+const MAX_DISPLAY_NAME_LENGTH = 40;
+
+// Host-supplied server timestamps further than this from the relay's clock are replaced
+const MAX_TIMESTAMP_SKEW_MS = 10000;
+
+// How long a member has to answer a host handoff offer
+const HANDOFF_OFFER_TIMEOUT_MS = 30000;
+const MAX_DJ_ROTATION_TRACKS = 50;
+
+// Upcoming tracks forwarded per queue update (each one is resolved against Spotify)
+const MAX_UPCOMING_TRACKS = 3;
+
+// Host position jumps bigger than this (vs. the last broadcast state) count as a seek
+const SEEK_THRESHOLD_SEC = 2;
+
+// Rate-limited connections get at most one ERROR per this interval; sustained abuse is disconnected
+const RATE_LIMIT_ERROR_INTERVAL_MS = 1000;
+const RATE_LIMIT_MAX_DROPPED = 200;
+
+// Close codes for clients removed by an admin (4000-4999 are application-defined)
+const CLOSE_CODE_SESSION_CLOSED = 4001;
+const CLOSE_CODE_KICKED = 4002;
+
+const activeSessionsGauge = registry.register(
+  new Gauge("apple_spotify_sync_sessions_active", "Sessions with at least one client on this instance")
+);
+const clientsGauge = registry.register(
+  new Gauge("apple_spotify_sync_clients", "Connected clients on this instance by role", ["role"])
+);
+const stateUpdatesReceived = registry.register(
+  new Counter("apple_spotify_sync_state_updates_received_total", "Valid STATE_UPDATE messages received from hosts")
+);
+// trigger: immediate (track change, play/pause, seek) or coalesced (steady progress)
+const stateBroadcasts = registry.register(
+  new Counter("apple_spotify_sync_state_broadcasts_total", "Host state broadcasts to listeners", ["trigger"])
+);
+const broadcastFanout = registry.register(
+  new Histogram(
+    "apple_spotify_sync_broadcast_fanout",
+    "Local listeners reached per host state broadcast",
+    [],
+    [0, 1, 2, 5, 10, 25, 50, 100]
+  )
+);
+const rateLimitedMessages = registry.register(
+  new Counter("apple_spotify_sync_ws_messages_rate_limited_total", "Inbound WebSocket messages dropped by the rate limit")
+);
+
+/**
+ * Apple track metadata needed to resolve a Spotify match
+ */
+type ResolvableTrack = Pick<ApplePlaybackState, "trackId" | "title" | "artist" | "album" | "durationSec" | "isrc">;
+
+/**
+ * Spotify resolution of the host's current track in a session
+ */
+interface ResolvedTrack {
+  trackId: string;
+  state: ApplePlaybackState; // host state that started the resolution
+  match: Promise<TrackMatchInfo>;
+}
+
+/**
+ * Host handoff offer waiting for the target's answer (at most one per session)
+ */
+interface PendingHandoff {
+  requestId: string;
+  from: ClientMeta; // host that the offer was made for
+  target: ClientMeta;
+  reason: HandoffReason;
+  candidates: ClientMeta[]; // rotation: members to ask next if the target declines
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * DJ rotation settings and progress for a session
+ */
+interface DjRotation {
+  tracksPerTurn: number;
+  tracksThisTurn: number; // distinct tracks the current host has started this turn
+  lastTrackId: string | null;
+  upNext: ClientMeta | null; // accepted the next turn, takes over at the host's next track change
+}
+
+/**
+ * Relay tuning options
+ */
+export interface RelayOptions {
+  hostLostGraceMs?: number; // how long a host may be gone before listeners get HOST_LOST
+  heartbeatIntervalMs?: number; // how often every socket is pinged
+  heartbeatTimeoutMs?: number; // sockets silent for longer than this are terminated
+  resumeGraceMs?: number; // how long a dropped client keeps its identity and seat for a RESUME
+  stateCoalesceWindowMs?: number; // steady host updates are forwarded at most once per window (latest wins)
+  maxMessagesPerSecond?: number; // per-connection inbound message rate
+  messageBurst?: number; // per-connection burst allowance on top of the rate
+  broker?: SessionBroker; // fan-out and presence shared between relay instances (default: process-local)
+  history?: SessionHistory; // tracklist recorded from host track changes (default: in memory)
+}
+
+export const DEFAULT_HOST_LOST_GRACE_MS = 15000;
+export const DEFAULT_HEARTBEAT_INTERVAL_MS = 15000;
+export const DEFAULT_HEARTBEAT_TIMEOUT_MS = 45000;
+export const DEFAULT_RESUME_GRACE_MS = 30000;
+export const DEFAULT_STATE_COALESCE_WINDOW_MS = 1000;
+export const DEFAULT_MAX_MESSAGES_PER_SECOND = 20;
+export const DEFAULT_MESSAGE_BURST = 40;
+
+/**
+ * Per-connection inbound rate limit state
+ */
+interface ConnectionLimit {
+  limiter: RateLimiter;
+  dropped: number; // messages dropped since the last accepted one
+  lastErrorAtMs: number;
+}
+
+/**
+ * Latest validated host state in a session, kept for late joiners
+ */
+export interface NowPlaying {
+  state: ApplePlaybackState;
+  match: TrackMatchInfo | null;
+}
+
+/**
+ * Client as shown to admins
+ */
+export interface ClientSummary {
+  clientId: string;
+  role: "host" | "listener";
+  isOwner: boolean;
+  listenerId: string | null;
+  displayName: string | null;
+  connectedAt: number;
+  suspended: boolean; // dropped and waiting for a RESUME
+}
 
 /**
  * WebSocket relay server for syncing Apple Music playback to Spotify
@@ -8,25 +163,138 @@ import { ClientMeta, WsMessage, ApplePlaybackState } from "./types";
 export class WebSocketRelay {
   private wss: WebSocketServer;
   private sessions: Map<string, Set<ClientMeta>> = new Map();
+  private resolvedTracks: Map<string, ResolvedTrack> = new Map();
+  private lastHostStates: Map<string, NowPlaying> = new Map();
+  private upcomingQueues: Map<string, UpcomingTrack[]> = new Map(); // host's next tracks, with matches once resolved
+  private hostLostTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private pendingHandoffs: Map<string, PendingHandoff> = new Map();
+  private djRotations: Map<string, DjRotation> = new Map();
+  private hostLostGraceMs: number;
+  private heartbeatTimeoutMs: number;
+  private lastSeen: Map<WebSocket, number> = new Map(); // last pong or message per socket
+  private heartbeatInterval: ReturnType<typeof setInterval>;
+  private resumeGraceMs: number;
+  private resumeTokens: Map<string, ClientMeta> = new Map();
+  private suspendedClients: Map<ClientMeta, ReturnType<typeof setTimeout>> = new Map();
+  private sessionSeqs: Map<string, number> = new Map();
+  private stateCoalesceWindowMs: number;
+  private lastBroadcasts: Map<string, { state: ApplePlaybackState; sentAtMs: number }> = new Map();
+  private broadcastTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private maxMessagesPerSecond: number;
+  private messageBurst: number;
+  private broker: SessionBroker;
+  private instanceId: string = randomUUID();
+  private brokerSubscriptions: Map<string, Promise<void>> = new Map();
+  private remoteMembers: Map<string, Map<string, MemberInfo>> = new Map(); // members on other instances
+  private brokerHandler: BrokerHandler = (envelope) => this.handleBrokerMessage(envelope);
+  private history: SessionHistory;
+  private sessionRegistry: SessionRegistry;
+  private trackResolver: TrackResolver | null;
+  private syncWorker: ListenerSyncWorker | null;
 
-  constructor(server: HttpServer) {
+  constructor(
+    server: HttpServer,
+    sessionRegistry: SessionRegistry,
+    trackResolver: TrackResolver | null = null,
+    syncWorker: ListenerSyncWorker | null = null,
+    options: RelayOptions = {}
+  ) {
     this.wss = new WebSocketServer({ server });
+    this.sessionRegistry = sessionRegistry;
+    this.trackResolver = trackResolver;
+    this.syncWorker = syncWorker;
+    this.hostLostGraceMs = options.hostLostGraceMs ?? DEFAULT_HOST_LOST_GRACE_MS;
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? DEFAULT_HEARTBEAT_TIMEOUT_MS;
+    this.resumeGraceMs = options.resumeGraceMs ?? DEFAULT_RESUME_GRACE_MS;
+    this.stateCoalesceWindowMs = options.stateCoalesceWindowMs ?? DEFAULT_STATE_COALESCE_WINDOW_MS;
+    this.maxMessagesPerSecond = options.maxMessagesPerSecond ?? DEFAULT_MAX_MESSAGES_PER_SECOND;
+    this.messageBurst = options.messageBurst ?? DEFAULT_MESSAGE_BURST;
+    this.broker = options.broker ?? new InMemoryBroker();
+    this.history = options.history ?? new SessionHistory(null);
+    // Headless listeners get host updates published by other instances, even with no sockets here
+    this.syncWorker?.onSessionFollowChange((sessionId, following) => {
+      if (following) {
+        this.ensureSubscribed(sessionId);
+      } else if (!this.sessions.has(sessionId)) {
+        this.clearHostLostTimer(sessionId);
+        this.lastHostStates.delete(sessionId);
+        this.upcomingQueues.delete(sessionId);
+        this.unsubscribeSession(sessionId);
+      }
+    });
+    registry.addCollector(() => this.collectMetrics());
 
-    this.wss.on("connection", (ws: WebSocket) => {
+    // Half-open sockets (sleeping laptop, network switch) never emit close - ping them and reap the silent ones
+    // Members of relay instances that died without saying goodbye are reaped on the same tick
+    this.heartbeatInterval = setInterval(() => {
+      this.checkHeartbeats();
+      this.pruneRemoteMembers();
+    }, options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS);
+    this.wss.on("close", () => clearInterval(this.heartbeatInterval));
+
+    this.wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
       console.log("New WebSocket connection");
+      const clientAddress = req.socket.remoteAddress ?? "unknown";
 
       let clientMeta: ClientMeta | null = null;
+      this.lastSeen.set(ws, Date.now());
+      const limit: ConnectionLimit = {
+        limiter: new RateLimiter(this.maxMessagesPerSecond, this.messageBurst),
+        dropped: 0,
+        lastErrorAtMs: 0,
+      };
+
+      ws.on("pong", () => {
+        this.lastSeen.set(ws, Date.now());
+      });
 
       ws.on("message", (data: Buffer) => {
+        this.lastSeen.set(ws, Date.now());
+        if (!this.checkRateLimit(ws, limit)) {
+          return;
+        }
+
         try {
           const message: WsMessage = JSON.parse(data.toString());
 
-          if (message.type === "JOIN") {
-            this.handleJoin(ws, message, (meta) => {
+          if (message.type === "TIME_PING") {
+            this.handleTimePing(ws, message);
+          } else if (message.type === "JOIN") {
+            this.handleJoin(ws, message, clientAddress, (meta) => {
+              clientMeta = meta;
+            }).catch((error) => {
+              console.error("Error handling join:", error);
+            });
+          } else if (message.type === "RESUME") {
+            this.handleResume(ws, message, (meta) => {
               clientMeta = meta;
             });
           } else if (message.type === "STATE_UPDATE") {
-            this.handleStateUpdate(ws, message);
+            this.handleStateUpdate(ws, message).catch((error) => {
+              console.error("Error handling state update:", error);
+            });
+          } else if (message.type === "QUEUE_UPDATE") {
+            this.handleQueueUpdate(ws, message).catch((error) => {
+              console.error("Error handling queue update:", error);
+            });
+          } else if (message.type === "REGISTER_HEADLESS" || message.type === "UNREGISTER_HEADLESS") {
+            this.handleHeadlessRegistration(ws, message, clientAddress);
+          } else if (
+            message.type === "HANDOFF_REQUEST" ||
+            message.type === "HANDOFF_RESPONSE" ||
+            message.type === "RECLAIM_HOST" ||
+            message.type === "SET_DJ_ROTATION"
+          ) {
+            if (!clientMeta) {
+              ws.send(
+                JSON.stringify({
+                  type: "ERROR",
+                  message: "Not in a session. Send JOIN first.",
+                })
+              );
+            } else {
+              this.handleHostControl(clientMeta, message);
+            }
           } else {
             console.warn("Unknown message type:", message);
             ws.send(
@@ -47,33 +315,49 @@ export class WebSocketRelay {
         }
       });
 
-      ws.on("close", () => {
-        console.log("WebSocket connection closed");
-        if (clientMeta) {
-          this.removeClient(clientMeta);
+      ws.on("close", (code: number) => {
+        console.log(`WebSocket connection closed (${code})`);
+        this.lastSeen.delete(ws);
+        // Skip sockets that a RESUME on a newer connection already replaced
+        if (clientMeta && clientMeta.socket === ws) {
+          // 1000 is a deliberate leave; anything else may come back with RESUME
+          if (code === 1000) {
+            this.removeClient(clientMeta);
+          } else {
+            this.suspendClient(clientMeta);
+          }
         }
       });
 
       ws.on("error", (error) => {
         console.error("WebSocket error:", error);
-        if (clientMeta) {
-          this.removeClient(clientMeta);
+        if (clientMeta && clientMeta.socket === ws) {
+          this.suspendClient(clientMeta);
         }
       });
     });
   }
 
-  private handleJoin(
+  private async handleJoin(
     ws: WebSocket,
-    message: { type: "JOIN"; sessionId: string; role: "host" | "listener"; listenerId?: string },
+    message: {
+      type: "JOIN";
+      sessionId?: string;
+      role: "host" | "listener";
+      listenerId?: string;
+      displayName?: string;
+      ownerSecret?: string;
+      joinCode?: string;
+    },
+    clientAddress: string,
     onJoin: (meta: ClientMeta) => void
-  ): void {
+  ): Promise<void> {
     // Validate message
-    if (!message.sessionId || !message.role) {
+    if (!message.role) {
       ws.send(
         JSON.stringify({
           type: "ERROR",
-          message: "Invalid JOIN message: missing sessionId or role",
+          message: "Invalid JOIN message: missing role",
         })
       );
       return;
@@ -89,40 +373,260 @@ export class WebSocketRelay {
       return;
     }
 
+    // Hosts prove ownership with the owner secret; listeners join with the session's join code
+    let sessionId: string;
+    if (message.role === "host") {
+      if (!message.sessionId || !message.ownerSecret) {
+        ws.send(
+          JSON.stringify({
+            type: "ERROR",
+            message: "Invalid JOIN message: hosts must provide sessionId and ownerSecret",
+          })
+        );
+        return;
+      }
+      if (!this.sessionRegistry.verifyOwner(message.sessionId, message.ownerSecret)) {
+        console.warn(`Rejected host JOIN for session ${message.sessionId}: bad owner secret`);
+        ws.send(
+          JSON.stringify({
+            type: "ERROR",
+            message: "Not the owner of this session",
+          })
+        );
+        return;
+      }
+      sessionId = message.sessionId;
+    } else {
+      if (!this.sessionRegistry.allowJoinCodeLookup(clientAddress)) {
+        ws.send(
+          JSON.stringify({
+            type: "ERROR",
+            message: "Too many join attempts, try again later",
+          })
+        );
+        return;
+      }
+      const record = message.joinCode ? this.sessionRegistry.findByJoinCode(message.joinCode) : null;
+      if (!record) {
+        ws.send(
+          JSON.stringify({
+            type: "ERROR",
+            message: "Invalid join code",
+          })
+        );
+        return;
+      }
+      sessionId = record.sessionId;
+    }
+
+    // Members on other relay instances count for the host seat and presence
+    await this.ensureSubscribed(sessionId);
+    if (message.role === "host") {
+      // Don't let a host left behind by a crashed instance keep the owner out of the seat
+      await this.pruneSessionRemoteMembers(sessionId);
+    }
+
+    // An owner rejoining from scratch replaces a dropped host that is still waiting to resume
+    if (message.role === "host") {
+      for (const client of this.sessions.get(sessionId) ?? []) {
+        if (client.role === "host" && this.suspendedClients.has(client)) {
+          this.removeClient(client);
+        }
+      }
+    }
+
+    // One active host per session - an owner joining while the seat is taken joins as a listener
+    const role = message.role === "host" && !this.hasHost(sessionId) ? "host" : "listener";
+    if (role !== message.role) {
+      console.log(`Session ${sessionId} already has an active host, owner joins as listener`);
+    }
+
     // Create client metadata
     const clientMeta: ClientMeta = {
+      clientId: randomUUID(),
       socket: ws,
-      sessionId: message.sessionId,
-      role: message.role,
+      sessionId: sessionId,
+      role,
+      isOwner: message.role === "host",
+      resumeToken: randomBytes(24).toString("base64url"),
       listenerId: message.listenerId,
+      displayName:
+        typeof message.displayName === "string"
+          ? message.displayName.trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || undefined
+          : undefined,
+      connectedAt: Date.now(),
+      lastSeq: this.sessionSeqs.get(sessionId) ?? 0,
     };
 
     // Add to session
-    if (!this.sessions.has(message.sessionId)) {
-      this.sessions.set(message.sessionId, new Set());
+    if (!this.sessions.has(sessionId)) {
+      this.sessions.set(sessionId, new Set());
     }
-    this.sessions.get(message.sessionId)!.add(clientMeta);
+    this.sessions.get(sessionId)!.add(clientMeta);
+    this.resumeTokens.set(clientMeta.resumeToken, clientMeta);
+    this.publishMember(clientMeta);
 
     console.log(
-      `Client joined session ${message.sessionId} as ${message.role}${message.listenerId ? ` (listenerId: ${message.listenerId})` : ""}`
+      `Client joined session ${sessionId} as ${role}${message.listenerId ? ` (listenerId: ${message.listenerId})` : ""}`
     );
 
-    // Confirm join
+    // Confirm join (role may differ from the requested one, see above)
     ws.send(
       JSON.stringify({
         type: "JOINED",
-        sessionId: message.sessionId,
-        role: message.role,
+        sessionId: sessionId,
+        clientId: clientMeta.clientId,
+        role,
+        resumeToken: clientMeta.resumeToken,
+        seq: this.sessionSeqs.get(sessionId) ?? 0,
       })
     );
 
+    // Tell the new member who is here, and everyone else that they arrived
+    this.sendToClient(clientMeta, this.buildPresence(sessionId));
+    const member = this.toMemberInfo(clientMeta);
+    this.sendToSession(
+      sessionId,
+      {
+        type: "MEMBER_JOINED",
+        sessionId: sessionId,
+        member,
+        listenerCount: this.getListenerCount(sessionId),
+      },
+      clientMeta
+    );
+    if (role === "host") {
+      // Host is back within (or after) the grace period
+      this.clearHostLostTimer(sessionId);
+      const hostOnline: WsMessage = { type: "HOST_ONLINE", sessionId: sessionId, member };
+      this.sendToSession(sessionId, hostOnline, clientMeta);
+    }
+
+    // Late joiners get the current host state right away instead of waiting for the next update
+    if (role === "listener") {
+      this.sendNowPlayingSnapshot(clientMeta);
+    }
+
     onJoin(clientMeta);
   }
 
-  private handleStateUpdate(
+  /**
+   * Restore a dropped client's identity and role on a new connection
+   * Clients that missed messages (lastSeq behind the session) get fresh presence and host state.
+   */
+  private handleResume(
     ws: WebSocket,
-    message: { type: "STATE_UPDATE"; sessionId: string; payload: ApplePlaybackState }
+    message: { type: "RESUME"; resumeToken: string; lastSeq: number },
+    onResume: (meta: ClientMeta) => void
   ): void {
+    const clientMeta = typeof message.resumeToken === "string" ? this.resumeTokens.get(message.resumeToken) : undefined;
+    if (!clientMeta) {
+      ws.send(
+        JSON.stringify({
+          type: "RESUME_FAILED",
+          message: "Unknown or expired resume token",
+        })
+      );
+      return;
+    }
+
+    const timer = this.suspendedClients.get(clientMeta);
+    if (timer) {
+      clearTimeout(timer);
+      this.suspendedClients.delete(clientMeta);
+    }
+    const hostReturned = timer !== undefined && clientMeta.role === "host";
+
+    // The old socket may still look open to us if it went half-open
+    const oldSocket = clientMeta.socket;
+    clientMeta.socket = ws;
+    if (oldSocket !== ws && oldSocket.readyState !== WebSocket.CLOSED) {
+      oldSocket.terminate();
+    }
+    onResume(clientMeta);
+
+    const sessionId = clientMeta.sessionId;
+    const seq = this.sessionSeqs.get(sessionId) ?? 0;
+    console.log(`Client ${clientMeta.clientId} resumed session ${sessionId} as ${clientMeta.role}`);
+
+    const resumed: WsMessage = {
+      type: "RESUMED",
+      sessionId,
+      clientId: clientMeta.clientId,
+      role: clientMeta.role,
+      resumeToken: clientMeta.resumeToken,
+      seq,
+    };
+    ws.send(JSON.stringify(resumed));
+
+    if (hostReturned) {
+      this.clearHostLostTimer(sessionId);
+      this.sendToSession(sessionId, { type: "HOST_ONLINE", sessionId, member: this.toMemberInfo(clientMeta) }, clientMeta);
+    }
+
+    if (typeof message.lastSeq !== "number" || message.lastSeq < clientMeta.lastSeq) {
+      this.sendToClient(clientMeta, this.buildPresence(sessionId));
+      if (clientMeta.role === "listener") {
+        this.sendNowPlayingSnapshot(clientMeta);
+      }
+    }
+  }
+
+  /**
+   * Keep a dropped client's seat for the resume grace period instead of removing it right away
+   * Other members see no change unless the grace period passes without a RESUME - except for a dropped host,
+   * who shows as offline right away so the host-lost grace period starts when the connection drops.
+   */
+  private suspendClient(clientMeta: ClientMeta): void {
+    if (this.suspendedClients.has(clientMeta) || !this.sessions.get(clientMeta.sessionId)?.has(clientMeta)) {
+      return;
+    }
+
+    if (this.resumeGraceMs <= 0) {
+      this.removeClient(clientMeta);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      console.log(`Client ${clientMeta.clientId} did not resume, removing from session ${clientMeta.sessionId}`);
+      this.removeClient(clientMeta);
+    }, this.resumeGraceMs);
+    this.suspendedClients.set(clientMeta, timer);
+    console.log(
+      `Client ${clientMeta.clientId} dropped from session ${clientMeta.sessionId}, resumable for ${this.resumeGraceMs}ms`
+    );
+
+    if (clientMeta.role === "host") {
+      this.sendToSession(clientMeta.sessionId, { type: "HOST_OFFLINE", sessionId: clientMeta.sessionId }, clientMeta);
+      this.startHostLostTimer(clientMeta.sessionId);
+    }
+  }
+
+  /**
+   * Send the session's current host state to one member
+   */
+  private sendNowPlayingSnapshot(client: ClientMeta): void {
+    const nowPlaying = this.getNowPlaying(client.sessionId);
+    if (!nowPlaying) return;
+
+    this.sendToClient(client, {
+      type: "STATE_UPDATE",
+      sessionId: client.sessionId,
+      payload: nowPlaying.state,
+      ...(nowPlaying.match ? { match: nowPlaying.match } : {}),
+      snapshot: true,
+    });
+
+    const upcoming = this.upcomingQueues.get(client.sessionId);
+    if (upcoming && upcoming.length > 0) {
+      this.sendToClient(client, { type: "QUEUE_UPDATE", sessionId: client.sessionId, upcoming });
+    }
+  }
+
+  private async handleStateUpdate(
+    ws: WebSocket,
+    message: { type: "STATE_UPDATE"; sessionId: string; payload: ApplePlaybackState }
+  ): Promise<void> {
     // Find the client sending this update
     const session = this.sessions.get(message.sessionId);
     if (!session) {
@@ -154,12 +658,12 @@ export class WebSocketRelay {
       return;
     }
 
-    // Only hosts can send state updates
+    // Only the client holding the session's host seat can send state updates
     if (sender.role !== "host") {
       ws.send(
         JSON.stringify({
           type: "ERROR",
-          message: "Only hosts can send state updates",
+          message: "Only the active host can send state updates",
         })
       );
       return;
@@ -176,64 +680,1279 @@ export class WebSocketRelay {
       return;
     }
 
-    // Broadcast to all listeners in the session
-    let broadcastCount = 0;
-    for (const client of session) {
-      if (client.role === "listener" && client.socket.readyState === WebSocket.OPEN) {
-        client.socket.send(JSON.stringify(message));
-        broadcastCount++;
-      }
+    stateUpdatesReceived.inc();
+
+    // The next DJ takes over when the current one moves on to a new track
+    if (this.advanceDjRotation(sender, message.payload)) {
+      return;
     }
 
-    console.log(
-      `State update broadcasted to ${broadcastCount} listener(s) in session ${message.sessionId}`
-    );
+    // Stamp the snapshot in server time so listeners don't depend on the host's clock
+    message.payload.serverTimestampMs = this.toServerTimestamp(message.payload);
+
+    // Attach the Spotify match for the host's track (resolved once per track change)
+    const match = await this.getTrackMatch(message.sessionId, message.payload);
+
+    // A newer track may have started while this one was resolving, or the host role moved on
+    const current = this.resolvedTracks.get(message.sessionId);
+    if (message.payload.trackId && current && current.trackId !== message.payload.trackId) {
+      return;
+    }
+    if (sender.role !== "host") {
+      return;
+    }
+
+    this.lastHostStates.set(message.sessionId, { state: message.payload, match });
+    this.history.record(message.sessionId, message.payload, match);
+
+    // Forward discontinuities right away; steady progress updates are coalesced (latest wins)
+    const discontinuity = this.getDiscontinuity(message.sessionId, message.payload);
+    if (discontinuity || this.stateCoalesceWindowMs <= 0) {
+      this.broadcastHostState(message.sessionId, discontinuity);
+    } else if (!this.broadcastTimers.has(message.sessionId)) {
+      const lastSentAtMs = this.lastBroadcasts.get(message.sessionId)?.sentAtMs ?? 0;
+      const delayMs = Math.max(0, lastSentAtMs + this.stateCoalesceWindowMs - Date.now());
+      const timer = setTimeout(() => {
+        this.broadcastTimers.delete(message.sessionId);
+        this.broadcastHostState(message.sessionId, null);
+      }, delayMs);
+      this.broadcastTimers.set(message.sessionId, timer);
+    }
   }
 
-  private isValidPlaybackState(state: any): state is ApplePlaybackState {
-    return (
-      typeof state === "object" &&
-      state !== null &&
-      (state.trackId === null || typeof state.trackId === "string") &&
-      (state.title === null || typeof state.title === "string") &&
-      (state.artist === null || typeof state.artist === "string") &&
-      (state.album === null || typeof state.album === "string") &&
-      (state.durationSec === null || typeof state.durationSec === "number") &&
-      typeof state.positionSec === "number" &&
-      (state.playbackState === "playing" ||
-        state.playbackState === "paused" ||
-        state.playbackState === "stopped") &&
-      typeof state.hostTimestampMs === "number"
+  /**
+   * Pre-resolve the host's upcoming tracks and forward them to listeners, who queue the next one on Spotify
+   * Resolving here also warms the match cache, so the track change itself resolves without a search.
+   */
+  private async handleQueueUpdate(
+    ws: WebSocket,
+    message: { type: "QUEUE_UPDATE"; sessionId: string; upcoming: UpcomingTrack[] }
+  ): Promise<void> {
+    const session = this.sessions.get(message.sessionId);
+    const sender = session ? [...session].find((client) => client.socket === ws) : undefined;
+    if (!sender || sender.role !== "host") {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Only the active host can send queue updates",
+        })
+      );
+      return;
+    }
+
+    if (!Array.isArray(message.upcoming) || !message.upcoming.every((track) => this.isValidUpcomingTrack(track))) {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Invalid queue payload",
+        })
+      );
+      return;
+    }
+
+    // Matches come from the relay only
+    const upcoming: UpcomingTrack[] = message.upcoming
+      .slice(0, MAX_UPCOMING_TRACKS)
+      .map(({ match, ...track }) => track);
+    this.upcomingQueues.set(message.sessionId, upcoming);
+
+    const resolved = await Promise.all(
+      upcoming.map(async (track) => (this.trackResolver ? { ...track, match: await this.resolveTrack(track) } : track))
     );
+
+    // A newer queue may have arrived while these resolved, or the host role moved on
+    if (this.upcomingQueues.get(message.sessionId) !== upcoming || sender.role !== "host") {
+      return;
+    }
+    this.upcomingQueues.set(message.sessionId, resolved);
+
+    const queueUpdate: WsMessage = { type: "QUEUE_UPDATE", sessionId: message.sessionId, upcoming: resolved };
+    this.sendToLocalClients(message.sessionId, queueUpdate, "listeners");
+    this.publishToBroker(message.sessionId, queueUpdate, "listeners");
   }
 
-  private removeClient(clientMeta: ClientMeta): void {
-    const session = this.sessions.get(clientMeta.sessionId);
-    if (session) {
-      session.delete(clientMeta);
-      if (session.size === 0) {
-        this.sessions.delete(clientMeta.sessionId);
-        console.log(`Session ${clientMeta.sessionId} closed (no clients)`);
-      } else {
-        console.log(
-          `Client removed from session ${clientMeta.sessionId} (${session.size} remaining)`
-        );
+  /**
+   * Why a host state can't wait for the coalescing window, or null if it can
+   */
+  private getDiscontinuity(sessionId: string, state: ApplePlaybackState): string | null {
+    const last = this.lastBroadcasts.get(sessionId)?.state;
+    if (!last) return "first state";
+    if (state.trackId !== last.trackId) return "track change";
+    if (state.playbackState !== last.playbackState) return state.playbackState;
+
+    const elapsedSec =
+      last.playbackState === "playing"
+        ? ((state.serverTimestampMs ?? state.hostTimestampMs) - (last.serverTimestampMs ?? last.hostTimestampMs)) /
+          1000
+        : 0;
+    if (Math.abs(state.positionSec - (last.positionSec + elapsedSec)) > SEEK_THRESHOLD_SEC) return "seek";
+
+    return null;
+  }
+
+  /**
+   * Send the session's latest host state to its listeners and headless sync
+   * reason is only logged - steady coalesced updates (null) are not, to keep logs readable.
+   */
+  private broadcastHostState(sessionId: string, reason: string | null): void {
+    this.clearBroadcastTimer(sessionId);
+    const session = this.sessions.get(sessionId);
+    const nowPlaying = this.lastHostStates.get(sessionId);
+    if (!session || !nowPlaying) return;
+
+    const { state, match } = nowPlaying;
+    this.lastBroadcasts.set(sessionId, { state, sentAtMs: Date.now() });
+
+    // Broadcast to all listeners in the session (other instances deliver to theirs)
+    const stateUpdate: WsMessage = { type: "STATE_UPDATE", sessionId, payload: state, ...(match ? { match } : {}) };
+    const broadcastCount = this.sendToLocalClients(sessionId, stateUpdate, "listeners");
+    this.publishToBroker(sessionId, stateUpdate, "listeners");
+
+    stateBroadcasts.inc({ trigger: reason ? "immediate" : "coalesced" });
+    broadcastFanout.observe({}, broadcastCount);
+    if (reason) {
+      console.log(`State update (${reason}) broadcasted to ${broadcastCount} listener(s) in session ${sessionId}`);
+    }
+
+    // Drive listeners that sync server-side (no extension running)
+    this.syncWorker?.handleHostState(sessionId, state, match);
+  }
+
+  private clearBroadcastTimer(sessionId: string): void {
+    const timer = this.broadcastTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.broadcastTimers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Apply the per-connection message rate limit
+   * Over-limit messages are dropped with a (throttled) ERROR; sustained abuse closes the connection.
+   */
+  private checkRateLimit(ws: WebSocket, limit: ConnectionLimit): boolean {
+    if (limit.limiter.tryRemove()) {
+      limit.dropped = 0;
+      return true;
+    }
+
+    limit.dropped++;
+    rateLimitedMessages.inc();
+    if (limit.dropped >= RATE_LIMIT_MAX_DROPPED) {
+      console.warn(`Closing WebSocket after ${limit.dropped} rate-limited messages`);
+      ws.close(1008, "Rate limit exceeded");
+      return false;
+    }
+
+    const now = Date.now();
+    if (now - limit.lastErrorAtMs >= RATE_LIMIT_ERROR_INTERVAL_MS) {
+      limit.lastErrorAtMs = now;
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: `Rate limit exceeded: max ${this.maxMessagesPerSecond} messages per second`,
+        })
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Terminate sockets that haven't answered a ping within the timeout and ping the rest
+   * Termination emits close, which removes the client from its session as usual.
+   */
+  private checkHeartbeats(): void {
+    const now = Date.now();
+    for (const ws of this.wss.clients) {
+      const lastSeen = this.lastSeen.get(ws) ?? now;
+      if (now - lastSeen > this.heartbeatTimeoutMs) {
+        console.warn(`Terminating unresponsive WebSocket (silent for ${now - lastSeen}ms)`);
+        ws.terminate();
+        continue;
+      }
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
       }
     }
   }
 
   /**
-   * Get active session count (for debugging/monitoring)
+   * Reply to a clock sync probe (NTP-style: client computes offset and RTT from the four timestamps)
    */
-  public getActiveSessionCount(): number {
-    return this.sessions.size;
+  private handleTimePing(ws: WebSocket, message: { type: "TIME_PING"; clientSendMs: number }): void {
+    const serverReceiveMs = Date.now();
+
+    if (typeof message.clientSendMs !== "number") {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Invalid TIME_PING message: missing clientSendMs",
+        })
+      );
+      return;
+    }
+
+    const pong: WsMessage = {
+      type: "TIME_PONG",
+      clientSendMs: message.clientSendMs,
+      serverReceiveMs,
+      serverSendMs: Date.now(),
+    };
+    ws.send(JSON.stringify(pong));
   }
 
   /**
-   * Get client count for a specific session
+   * Server-time stamp for a host snapshot
+   * Trusts the host's own conversion (hostTimestampMs + its clock offset) when it is plausible,
+   * otherwise falls back to the time the relay received it.
    */
-  public getSessionClientCount(sessionId: string): number {
-    return this.sessions.get(sessionId)?.size ?? 0;
+  private toServerTimestamp(state: ApplePlaybackState): number {
+    const now = Date.now();
+    const claimed = state.serverTimestampMs;
+
+    if (typeof claimed === "number" && Math.abs(now - claimed) <= MAX_TIMESTAMP_SKEW_MS) {
+      // A snapshot can't be from the future; small overshoot is offset estimation error
+      return Math.min(claimed, now);
+    }
+
+    return now;
+  }
+
+  private handleHeadlessRegistration(
+    ws: WebSocket,
+    message:
+      | { type: "REGISTER_HEADLESS"; joinCode: string; listenerId: string }
+      | { type: "UNREGISTER_HEADLESS"; listenerId: string },
+    clientAddress: string
+  ): void {
+    if (!this.syncWorker) {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Headless sync is not enabled on this server",
+        })
+      );
+      return;
+    }
+
+    if (!message.listenerId) {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: `Invalid ${message.type} message: missing listenerId`,
+        })
+      );
+      return;
+    }
+
+    if (message.type === "UNREGISTER_HEADLESS") {
+      this.syncWorker.unregister(message.listenerId);
+      ws.send(JSON.stringify({ type: "HEADLESS_UNREGISTERED", listenerId: message.listenerId }));
+      return;
+    }
+
+    if (!this.sessionRegistry.allowJoinCodeLookup(clientAddress)) {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Too many join attempts, try again later",
+        })
+      );
+      return;
+    }
+    const record = message.joinCode ? this.sessionRegistry.findByJoinCode(message.joinCode) : null;
+    if (!record) {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Invalid join code",
+        })
+      );
+      return;
+    }
+
+    try {
+      this.syncWorker.register(message.listenerId, record.sessionId);
+      ws.send(
+        JSON.stringify({
+          type: "HEADLESS_REGISTERED",
+          sessionId: record.sessionId,
+          listenerId: message.listenerId,
+        })
+      );
+    } catch (error: any) {
+      ws.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: error.message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Get the Spotify match for the host's current track
+   * Starts a resolution when the track changes; later updates for the same track reuse it.
+   */
+  private getTrackMatch(sessionId: string, state: ApplePlaybackState): Promise<TrackMatchInfo | null> {
+    if (!this.trackResolver || !state.trackId || !state.title) {
+      return Promise.resolve(null);
+    }
+
+    const existing = this.resolvedTracks.get(sessionId);
+    if (existing && existing.trackId === state.trackId) {
+      return existing.match;
+    }
+
+    console.log(`Resolving Spotify match for "${state.title}" in session ${sessionId}`);
+    const match = this.resolveTrack(state);
+    this.resolvedTracks.set(sessionId, { trackId: state.trackId, state, match });
+    return match;
+  }
+
+  /**
+   * Re-resolve an Apple track in every session currently playing it
+   * Used after a manual match override; listeners receive MATCH_UPDATED and replay.
+   */
+  public refreshTrackMatch(appleTrackId: string): void {
+    for (const [sessionId, resolved] of this.resolvedTracks) {
+      if (resolved.trackId !== appleTrackId) continue;
+
+      const match = this.resolveTrack(resolved.state);
+      const refreshed: ResolvedTrack = { ...resolved, match };
+      this.resolvedTracks.set(sessionId, refreshed);
+
+      match.then((matchInfo) => {
+        // Skip if the session moved on to another track meanwhile
+        if (this.resolvedTracks.get(sessionId) !== refreshed) return;
+
+        const session = this.sessions.get(sessionId);
+        if (!session) return;
+
+        this.syncWorker?.handleMatchUpdated(sessionId, appleTrackId);
+
+        const nowPlaying = this.lastHostStates.get(sessionId);
+        if (nowPlaying && nowPlaying.state.trackId === appleTrackId) {
+          nowPlaying.match = matchInfo;
+        }
+        this.history.updateSpotifyUri(sessionId, appleTrackId, matchInfo);
+
+        const matchUpdated: WsMessage = { type: "MATCH_UPDATED", sessionId, appleTrackId, match: matchInfo };
+        this.sendToLocalClients(sessionId, matchUpdated, "listeners");
+        this.publishToBroker(sessionId, matchUpdated, "listeners");
+        console.log(`Match for ${appleTrackId} updated in session ${sessionId}`);
+      });
+    }
+  }
+
+  private async resolveTrack(state: ResolvableTrack): Promise<TrackMatchInfo> {
+    try {
+      const result = await this.trackResolver!.resolve(null, state.trackId, {
+        title: state.title!,
+        artist: state.artist,
+        album: state.album,
+        durationSec: state.durationSec,
+        isrc: state.isrc,
+      });
+
+      if (result.status !== "matched") {
+        console.warn(`No confident Spotify match for "${state.title}" (${result.status})`);
+      }
+
+      return {
+        status: result.status,
+        spotifyUri: result.match?.spotifyUri ?? null,
+        confidence: result.match?.confidence ?? null,
+        method: result.match?.method ?? null,
+        spotifyTitle: result.match?.spotifyTitle ?? null,
+        spotifyArtists: result.match?.spotifyArtists ?? null,
+      };
+    } catch (error: any) {
+      // Listeners fall back to resolving the track themselves
+      console.error(`Failed to resolve "${state.title}":`, error.message);
+      return {
+        status: "error",
+        spotifyUri: null,
+        confidence: null,
+        method: null,
+        spotifyTitle: null,
+        spotifyArtists: null,
+      };
+    }
+  }
+
+  private isValidPlaybackState(state: any): state is ApplePlaybackState {
+    return (
+      typeof state === "object" &&
+      state !== null &&
+      (state.trackId === null || typeof state.trackId === "string") &&
+      (state.title === null || typeof state.title === "string") &&
+      (state.artist === null || typeof state.artist === "string") &&
+      (state.album === null || typeof state.album === "string") &&
+      (state.durationSec === null || typeof state.durationSec === "number") &&
+      typeof state.positionSec === "number" &&
+      (state.playbackState === "playing" ||
+        state.playbackState === "paused" ||
+        state.playbackState === "stopped") &&
+      typeof state.hostTimestampMs === "number" &&
+      (state.isrc === undefined || state.isrc === null || typeof state.isrc === "string") &&
+      (state.catalogId === undefined || state.catalogId === null || typeof state.catalogId === "string") &&
+      (state.serverTimestampMs === undefined || typeof state.serverTimestampMs === "number")
+    );
+  }
+
+  private isValidUpcomingTrack(track: any): track is UpcomingTrack {
+    return (
+      typeof track === "object" &&
+      track !== null &&
+      typeof track.trackId === "string" &&
+      typeof track.title === "string" &&
+      (track.artist === null || typeof track.artist === "string") &&
+      (track.album === null || typeof track.album === "string") &&
+      (track.durationSec === null || typeof track.durationSec === "number") &&
+      (track.isrc === undefined || track.isrc === null || typeof track.isrc === "string") &&
+      (track.catalogId === undefined || track.catalogId === null || typeof track.catalogId === "string")
+    );
+  }
+
+  private removeClient(clientMeta: ClientMeta): void {
+    const session = this.sessions.get(clientMeta.sessionId);
+    // close can follow error for the same socket - only handle the first
+    if (!session || !session.delete(clientMeta)) {
+      return;
+    }
+
+    this.resumeTokens.delete(clientMeta.resumeToken);
+    this.broker.removeMember(clientMeta.sessionId, clientMeta.clientId).catch((error) => {
+      console.error("Failed to remove member from broker:", error.message);
+    });
+    const suspendTimer = this.suspendedClients.get(clientMeta);
+    if (suspendTimer) {
+      clearTimeout(suspendTimer);
+      this.suspendedClients.delete(clientMeta);
+    }
+    // A host that dropped was already announced offline and its host-lost grace period is running (or over)
+    const announceHostOffline = clientMeta.role === "host" && suspendTimer === undefined;
+
+    if (session.size === 0) {
+      this.sessions.delete(clientMeta.sessionId);
+      this.resolvedTracks.delete(clientMeta.sessionId);
+      this.lastHostStates.delete(clientMeta.sessionId);
+      this.upcomingQueues.delete(clientMeta.sessionId);
+      this.history.release(clientMeta.sessionId);
+      this.clearPendingHandoff(clientMeta.sessionId);
+      this.djRotations.delete(clientMeta.sessionId);
+      this.sessionSeqs.delete(clientMeta.sessionId);
+      this.clearBroadcastTimer(clientMeta.sessionId);
+      this.lastBroadcasts.delete(clientMeta.sessionId);
+      // Count before unsubscribing drops the remote members
+      const listenerCount = this.getListenerCount(clientMeta.sessionId);
+      // Headless listeners here keep following the session through the broker
+      const followed = this.syncWorker?.hasSessionListeners(clientMeta.sessionId) ?? false;
+      if (!followed) {
+        this.clearHostLostTimer(clientMeta.sessionId);
+        this.unsubscribeSession(clientMeta.sessionId);
+      } else if (announceHostOffline && !this.hasHost(clientMeta.sessionId)) {
+        this.startHostLostTimer(clientMeta.sessionId);
+      }
+      // Members on other instances still need to hear that this one left
+      this.publishToBroker(clientMeta.sessionId, {
+        type: "MEMBER_LEFT",
+        sessionId: clientMeta.sessionId,
+        member: this.toMemberInfo(clientMeta),
+        listenerCount,
+      }, "all");
+      if (announceHostOffline) {
+        // Their instances run the host-lost timer for their own members
+        this.publishToBroker(clientMeta.sessionId, { type: "HOST_OFFLINE", sessionId: clientMeta.sessionId }, "all");
+      }
+      console.log(`Session ${clientMeta.sessionId} closed (no clients)`);
+      return;
+    }
+
+    console.log(
+      `Client removed from session ${clientMeta.sessionId} (${session.size} remaining)`
+    );
+
+    this.sendToSession(clientMeta.sessionId, {
+      type: "MEMBER_LEFT",
+      sessionId: clientMeta.sessionId,
+      member: this.toMemberInfo(clientMeta),
+      listenerCount: this.getListenerCount(clientMeta.sessionId),
+    });
+
+    // Offers to or from the departed member can't complete any more
+    const pending = this.pendingHandoffs.get(clientMeta.sessionId);
+    if (pending?.target === clientMeta) {
+      this.resolveHandoff(clientMeta.sessionId, pending.requestId, false, "left");
+    } else if (pending?.from === clientMeta) {
+      this.cancelHandoff(clientMeta.sessionId);
+    }
+    const rotation = this.djRotations.get(clientMeta.sessionId);
+    if (rotation?.upNext === clientMeta) {
+      rotation.upNext = null;
+    }
+
+    if (clientMeta.role === "host") {
+      // Hand the seat to the next DJ or a connected owner rather than leaving the session without a host
+      const successor =
+        rotation?.upNext ??
+        [...session].find((client) => client.isOwner && !this.suspendedClients.has(client)) ??
+        null;
+      if (successor) {
+        this.transferHost(clientMeta.sessionId, successor, "host_left", clientMeta);
+      } else if (announceHostOffline) {
+        this.sendToSession(clientMeta.sessionId, { type: "HOST_OFFLINE", sessionId: clientMeta.sessionId });
+        this.startHostLostTimer(clientMeta.sessionId);
+      }
+    }
+  }
+
+  private handleHostControl(
+    sender: ClientMeta,
+    message:
+      | { type: "HANDOFF_REQUEST"; targetClientId: string }
+      | { type: "HANDOFF_RESPONSE"; requestId: string; accept: boolean }
+      | { type: "RECLAIM_HOST" }
+      | { type: "SET_DJ_ROTATION"; tracksPerTurn: number }
+  ): void {
+    if (message.type === "HANDOFF_REQUEST") {
+      this.handleHandoffRequest(sender, message.targetClientId);
+    } else if (message.type === "HANDOFF_RESPONSE") {
+      this.handleHandoffResponse(sender, message.requestId, message.accept);
+    } else if (message.type === "RECLAIM_HOST") {
+      this.handleReclaimHost(sender);
+    } else {
+      this.handleSetDjRotation(sender, message.tracksPerTurn);
+    }
+  }
+
+  /**
+   * Current host offers the host role to another member, who must accept it
+   */
+  private handleHandoffRequest(sender: ClientMeta, targetClientId: string): void {
+    if (sender.role !== "host") {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Only the active host can hand off the host role",
+        })
+      );
+      return;
+    }
+
+    if (this.pendingHandoffs.has(sender.sessionId)) {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "A host handoff is already pending in this session",
+        })
+      );
+      return;
+    }
+
+    const target = this.findClient(sender.sessionId, targetClientId);
+    if (!target || target === sender) {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Handoff target not found in session",
+        })
+      );
+      return;
+    }
+
+    this.offerHandoff(sender, target, "handoff", []);
+  }
+
+  private handleHandoffResponse(sender: ClientMeta, requestId: string, accept: boolean): void {
+    const pending = this.pendingHandoffs.get(sender.sessionId);
+    if (!pending || pending.requestId !== requestId || pending.target !== sender) {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "No matching handoff offer",
+        })
+      );
+      return;
+    }
+
+    this.resolveHandoff(sender.sessionId, requestId, accept === true, "declined");
+  }
+
+  /**
+   * Session owner takes the host role back from whoever holds it
+   */
+  private handleReclaimHost(sender: ClientMeta): void {
+    if (!sender.isOwner) {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Only the session owner can reclaim the host role",
+        })
+      );
+      return;
+    }
+
+    if (sender.role !== "host") {
+      this.transferHost(sender.sessionId, sender, "reclaim");
+    }
+  }
+
+  private handleSetDjRotation(sender: ClientMeta, tracksPerTurn: number): void {
+    if (sender.role !== "host" && !sender.isOwner) {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: "Only the host or session owner can change DJ rotation",
+        })
+      );
+      return;
+    }
+
+    if (!Number.isInteger(tracksPerTurn) || tracksPerTurn < 0 || tracksPerTurn > MAX_DJ_ROTATION_TRACKS) {
+      sender.socket.send(
+        JSON.stringify({
+          type: "ERROR",
+          message: `Invalid tracksPerTurn: must be an integer from 0 to ${MAX_DJ_ROTATION_TRACKS}`,
+        })
+      );
+      return;
+    }
+
+    const sessionId = sender.sessionId;
+    if (tracksPerTurn === 0) {
+      this.djRotations.delete(sessionId);
+      if (this.pendingHandoffs.get(sessionId)?.reason === "rotation") {
+        this.cancelHandoff(sessionId);
+      }
+    } else {
+      const existing = this.djRotations.get(sessionId);
+      // The track playing now counts towards the current turn
+      const currentTrackId = this.lastHostStates.get(sessionId)?.state.trackId ?? null;
+      this.djRotations.set(sessionId, {
+        tracksPerTurn,
+        tracksThisTurn: existing?.tracksThisTurn ?? (currentTrackId ? 1 : 0),
+        lastTrackId: existing?.lastTrackId ?? currentTrackId,
+        upNext: existing?.upNext ?? null,
+      });
+    }
+
+    console.log(`DJ rotation in session ${sessionId}: ${tracksPerTurn ? `every ${tracksPerTurn} track(s)` : "off"}`);
+    this.sendToSession(sessionId, { type: "DJ_ROTATION", sessionId, tracksPerTurn });
+  }
+
+  /**
+   * Count the host's tracks for DJ rotation
+   * Returns true when the host role moved to the next DJ and this state should be dropped.
+   */
+  private advanceDjRotation(host: ClientMeta, state: ApplePlaybackState): boolean {
+    const rotation = this.djRotations.get(host.sessionId);
+    if (!rotation || !state.trackId || state.trackId === rotation.lastTrackId) {
+      return false;
+    }
+    rotation.lastTrackId = state.trackId;
+
+    if (rotation.upNext) {
+      this.transferHost(host.sessionId, rotation.upNext, "rotation");
+      return true;
+    }
+
+    rotation.tracksThisTurn++;
+    if (rotation.tracksThisTurn >= rotation.tracksPerTurn && !this.pendingHandoffs.has(host.sessionId)) {
+      // Ask during the turn's last track so the next DJ is ready when it ends
+      const session = this.sessions.get(host.sessionId)!;
+      const members = [...session];
+      const index = members.indexOf(host);
+      const candidates = [...members.slice(index + 1), ...members.slice(0, index)].filter(
+        (client) => client.role === "listener" && !this.suspendedClients.has(client)
+      );
+      if (candidates.length > 0) {
+        this.offerHandoff(host, candidates[0], "rotation", candidates.slice(1));
+      }
+    }
+    return false;
+  }
+
+  private offerHandoff(from: ClientMeta, target: ClientMeta, reason: HandoffReason, candidates: ClientMeta[]): void {
+    const sessionId = from.sessionId;
+    const requestId = randomUUID();
+    const timer = setTimeout(() => {
+      this.resolveHandoff(sessionId, requestId, false, "expired");
+    }, HANDOFF_OFFER_TIMEOUT_MS);
+
+    this.pendingHandoffs.set(sessionId, { requestId, from, target, reason, candidates, timer });
+    this.sendToClient(target, {
+      type: "HANDOFF_OFFERED",
+      sessionId,
+      requestId,
+      from: this.toMemberInfo(from),
+      reason,
+      expiresInMs: HANDOFF_OFFER_TIMEOUT_MS,
+    });
+    console.log(`Host handoff (${reason}) offered to ${target.clientId} in session ${sessionId}`);
+  }
+
+  /**
+   * Settle a pending handoff offer
+   * Accepted handoffs move the host role now; accepted rotations at the host's next track change.
+   * Declined rotations move on to the next member in line.
+   */
+  private resolveHandoff(
+    sessionId: string,
+    requestId: string,
+    accepted: boolean,
+    declineReason: "declined" | "expired" | "left"
+  ): void {
+    const pending = this.pendingHandoffs.get(sessionId);
+    if (!pending || pending.requestId !== requestId) return;
+    clearTimeout(pending.timer);
+    this.pendingHandoffs.delete(sessionId);
+
+    if (accepted) {
+      if (pending.reason === "handoff") {
+        this.transferHost(sessionId, pending.target, "handoff");
+      } else {
+        const rotation = this.djRotations.get(sessionId);
+        if (rotation) {
+          rotation.upNext = pending.target;
+        }
+      }
+      return;
+    }
+
+    console.log(`Host handoff in session ${sessionId} not accepted (${declineReason})`);
+    this.sendToClient(pending.from, {
+      type: "HANDOFF_DECLINED",
+      sessionId,
+      requestId,
+      target: this.toMemberInfo(pending.target),
+      reason: declineReason,
+    });
+
+    if (pending.reason === "rotation" && pending.from.role === "host") {
+      const session = this.sessions.get(sessionId);
+      const remaining = pending.candidates.filter((client) => session?.has(client) && client.role === "listener");
+      if (remaining.length > 0) {
+        this.offerHandoff(pending.from, remaining[0], "rotation", remaining.slice(1));
+      }
+    }
+  }
+
+  /**
+   * Withdraw a pending offer (e.g. the host left or the host role moved another way)
+   */
+  private cancelHandoff(sessionId: string): void {
+    const pending = this.pendingHandoffs.get(sessionId);
+    if (!pending) return;
+    this.clearPendingHandoff(sessionId);
+    this.sendToClient(pending.target, { type: "HANDOFF_CANCELLED", sessionId, requestId: pending.requestId });
+  }
+
+  private clearPendingHandoff(sessionId: string): void {
+    const pending = this.pendingHandoffs.get(sessionId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingHandoffs.delete(sessionId);
+    }
+  }
+
+  /**
+   * Move the session's host seat to another member and tell everyone
+   */
+  private transferHost(
+    sessionId: string,
+    newHost: ClientMeta,
+    reason: HostChangeReason,
+    departedHost: ClientMeta | null = null
+  ): void {
+    const session = this.sessions.get(sessionId);
+    if (!session || !session.has(newHost)) return;
+
+    let previousHost = departedHost;
+    for (const client of session) {
+      if (client.role === "host") {
+        client.role = "listener";
+        previousHost = client;
+        this.publishMember(client);
+      }
+    }
+    newHost.role = "host";
+    this.publishMember(newHost);
+
+    // The new host starts a fresh turn
+    const rotation = this.djRotations.get(sessionId);
+    if (rotation) {
+      rotation.tracksThisTurn = 0;
+      rotation.lastTrackId = null;
+      rotation.upNext = null;
+    }
+    this.cancelHandoff(sessionId);
+    this.clearHostLostTimer(sessionId);
+    // The previous host's queue doesn't apply any more; the new host sends its own
+    this.upcomingQueues.delete(sessionId);
+
+    console.log(`Host role in session ${sessionId} moved to ${newHost.clientId} (${reason})`);
+    this.sendToSession(sessionId, {
+      type: "HOST_CHANGED",
+      sessionId,
+      host: this.toMemberInfo(newHost),
+      previousHost: previousHost ? this.toMemberInfo(previousHost) : null,
+      reason,
+      listenerCount: this.getListenerCount(sessionId),
+    });
+  }
+
+  /**
+   * Tell listeners the host is gone for good once the grace period passes without a reconnect
+   * Every instance with members in the session runs its own timer for the sockets it holds.
+   */
+  private startHostLostTimer(sessionId: string): void {
+    this.clearHostLostTimer(sessionId);
+    const offlineSinceMs = Date.now();
+
+    const timer = setTimeout(() => {
+      this.hostLostTimers.delete(sessionId);
+      if (this.hasConnectedHost(sessionId)) return;
+
+      console.log(`Host lost in session ${sessionId} (offline for ${this.hostLostGraceMs}ms)`);
+      this.sendToLocalClients(sessionId, { type: "HOST_LOST", sessionId, offlineSinceMs });
+      this.syncWorker?.handleHostLost(sessionId);
+    }, this.hostLostGraceMs);
+    this.hostLostTimers.set(sessionId, timer);
+  }
+
+  private clearHostLostTimer(sessionId: string): void {
+    const timer = this.hostLostTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.hostLostTimers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Send a message to every open socket in a session, optionally skipping one client
+   */
+  private sendToSession(sessionId: string, message: WsMessage, exclude?: ClientMeta): void {
+    if (!this.sessions.has(sessionId)) return;
+
+    this.sendToLocalClients(sessionId, message, "all", exclude?.clientId);
+    this.publishToBroker(sessionId, message, "all", exclude?.clientId);
+  }
+
+  /**
+   * Subscribe to a session's broker channel and load the members connected to other instances
+   * Called before the first local member joins or headless listener registers.
+   * A broker failure leaves the session local-only.
+   */
+  private ensureSubscribed(sessionId: string): Promise<void> {
+    let subscription = this.brokerSubscriptions.get(sessionId);
+    if (!subscription) {
+      subscription = (async () => {
+        await this.broker.subscribe(sessionId, this.brokerHandler);
+        const remote = new Map<string, MemberInfo>();
+        for (const { instanceId, ...member } of await this.broker.getMembers(sessionId)) {
+          if (instanceId !== this.instanceId) {
+            remote.set(member.clientId, member);
+          }
+        }
+        this.remoteMembers.set(sessionId, remote);
+      })().catch((error) => {
+        console.error(`Failed to subscribe to broker for session ${sessionId}:`, error.message);
+        this.brokerSubscriptions.delete(sessionId);
+      });
+      this.brokerSubscriptions.set(sessionId, subscription);
+    }
+    return subscription;
+  }
+
+  /**
+   * Drop remote members the broker no longer knows (their instance stopped refreshing its presence)
+   */
+  private pruneRemoteMembers(): void {
+    for (const sessionId of this.remoteMembers.keys()) {
+      this.pruneSessionRemoteMembers(sessionId);
+    }
+  }
+
+  private async pruneSessionRemoteMembers(sessionId: string): Promise<void> {
+    const remote = this.remoteMembers.get(sessionId);
+    if (!remote || remote.size === 0) return;
+
+    // Only members known before the read can be stale; ones that joined meanwhile may not be stored yet
+    const known = [...remote.values()];
+    let live: Set<string>;
+    try {
+      live = new Set((await this.broker.getMembers(sessionId)).map((member) => member.clientId));
+    } catch (error: any) {
+      console.error(`Failed to read broker members for session ${sessionId}:`, error.message);
+      return;
+    }
+
+    for (const member of known) {
+      if (live.has(member.clientId) || this.remoteMembers.get(sessionId)?.get(member.clientId) !== member) {
+        continue;
+      }
+      console.log(`Removing stale member ${member.clientId} from session ${sessionId} (its instance is gone)`);
+      this.remoteMembers.get(sessionId)!.delete(member.clientId);
+      this.sendToLocalClients(sessionId, {
+        type: "MEMBER_LEFT",
+        sessionId,
+        member,
+        listenerCount: this.getListenerCount(sessionId),
+      });
+      if (member.role === "host" && !this.hasHost(sessionId)) {
+        this.sendToLocalClients(sessionId, { type: "HOST_OFFLINE", sessionId });
+        this.startHostLostTimer(sessionId);
+      }
+    }
+  }
+
+  private unsubscribeSession(sessionId: string): void {
+    this.brokerSubscriptions.delete(sessionId);
+    this.remoteMembers.delete(sessionId);
+    this.broker.unsubscribe(sessionId, this.brokerHandler).catch((error) => {
+      console.error(`Failed to unsubscribe from broker for session ${sessionId}:`, error.message);
+    });
+  }
+
+  private publishToBroker(
+    sessionId: string,
+    message: WsMessage,
+    audience: "all" | "listeners",
+    excludeClientId?: string
+  ): void {
+    const envelope: BrokerEnvelope = { origin: this.instanceId, sessionId, message, audience, excludeClientId };
+    this.broker.publish(envelope).catch((error) => {
+      console.error(`Failed to publish ${message.type} to broker:`, error.message);
+    });
+  }
+
+  private publishMember(client: ClientMeta): void {
+    this.broker
+      .setMember(client.sessionId, { ...this.toMemberInfo(client), instanceId: this.instanceId })
+      .catch((error) => {
+        console.error("Failed to store member in broker:", error.message);
+      });
+  }
+
+  /**
+   * Apply a session message published by another relay instance and deliver it to our local members
+   */
+  private handleBrokerMessage(envelope: BrokerEnvelope): void {
+    if (envelope.origin === this.instanceId) return;
+    const { sessionId, message } = envelope;
+    const session = this.sessions.get(sessionId);
+    // Sessions without sockets here are still followed for their headless listeners
+    if (!session && !this.syncWorker?.hasSessionListeners(sessionId)) return;
+
+    // Admin actions apply to the sockets on whichever instance holds them
+    if (message.type === "SESSION_CLOSED") {
+      this.closeLocalSession(sessionId, message.reason);
+      this.syncWorker?.unregisterSession(sessionId);
+      return;
+    }
+    if (message.type === "KICKED") {
+      const client = [...(session ?? [])].find((member) => member.clientId === message.clientId);
+      if (client) {
+        this.kickLocalClient(client, message.reason);
+      }
+      return;
+    }
+
+    // Keep our view of the session in step with the other instances
+    if (message.type === "STATE_UPDATE") {
+      this.lastHostStates.set(sessionId, { state: message.payload, match: message.match ?? null });
+      this.syncWorker?.handleHostState(sessionId, message.payload, message.match ?? null);
+    } else if (message.type === "QUEUE_UPDATE") {
+      this.upcomingQueues.set(sessionId, message.upcoming);
+    } else if (message.type === "MATCH_UPDATED") {
+      const nowPlaying = this.lastHostStates.get(sessionId);
+      if (nowPlaying && nowPlaying.state.trackId === message.appleTrackId) {
+        nowPlaying.match = message.match;
+      }
+      this.syncWorker?.handleMatchUpdated(sessionId, message.appleTrackId);
+    } else if (message.type === "MEMBER_JOINED") {
+      this.remoteMembers.get(sessionId)?.set(message.member.clientId, message.member);
+    } else if (message.type === "MEMBER_LEFT") {
+      this.remoteMembers.get(sessionId)?.delete(message.member.clientId);
+    } else if (message.type === "HOST_OFFLINE") {
+      if (!this.hasConnectedHost(sessionId)) {
+        this.startHostLostTimer(sessionId);
+      }
+    } else if (message.type === "HOST_ONLINE") {
+      this.clearHostLostTimer(sessionId);
+    } else if (message.type === "HOST_CHANGED") {
+      const remote = this.remoteMembers.get(sessionId);
+      const previousHost = message.previousHost && remote?.get(message.previousHost.clientId);
+      if (previousHost) {
+        remote!.set(previousHost.clientId, { ...previousHost, role: "listener" });
+      }
+      if (remote?.has(message.host.clientId)) {
+        remote.set(message.host.clientId, message.host);
+      }
+      this.clearHostLostTimer(sessionId);
+      this.upcomingQueues.delete(sessionId);
+    }
+
+    this.sendToLocalClients(sessionId, message, envelope.audience, envelope.excludeClientId);
+  }
+
+  /**
+   * Broadcast a message to the session's sockets on this instance only, stamped with the next sequence number
+   * Clients report the highest one they saw when resuming; each client remembers the highest one addressed to it
+   * (even while dropped), so the relay knows if they missed anything.
+   * Returns the number of sockets it was sent to.
+   */
+  private sendToLocalClients(
+    sessionId: string,
+    message: WsMessage,
+    audience: "all" | "listeners" = "all",
+    excludeClientId?: string
+  ): number {
+    const session = this.sessions.get(sessionId);
+    if (!session) return 0;
+
+    const seq = (this.sessionSeqs.get(sessionId) ?? 0) + 1;
+    this.sessionSeqs.set(sessionId, seq);
+    const data = JSON.stringify({ ...message, seq } as SequencedWsMessage);
+
+    let sent = 0;
+    for (const client of session) {
+      if (client.clientId === excludeClientId) continue;
+      if (audience === "listeners" && client.role !== "listener") continue;
+      client.lastSeq = seq;
+      if (client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(data);
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Send a message to one client
+   * It carries the session's current sequence number without advancing it, so other members see no gap.
+   */
+  private sendToClient(client: ClientMeta, message: WsMessage): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      const sequenced: SequencedWsMessage = { ...message, seq: this.sessionSeqs.get(client.sessionId) ?? 0 };
+      client.socket.send(JSON.stringify(sequenced));
+    }
+  }
+
+  private findClient(sessionId: string, clientId: string): ClientMeta | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    for (const client of session) {
+      if (client.clientId === clientId) return client;
+    }
+    return null;
+  }
+
+  private buildPresence(sessionId: string): WsMessage {
+    const session = this.sessions.get(sessionId) ?? new Set<ClientMeta>();
+    return {
+      type: "PRESENCE",
+      sessionId,
+      hostOnline: this.hasHost(sessionId),
+      members: [
+        ...[...session].map((client) => this.toMemberInfo(client)),
+        ...(this.remoteMembers.get(sessionId)?.values() ?? []),
+      ],
+      listenerCount: this.getListenerCount(sessionId),
+      djRotationTracks: this.djRotations.get(sessionId)?.tracksPerTurn ?? 0,
+    };
+  }
+
+  /**
+   * Refresh the session and client gauges before a metrics scrape
+   */
+  private collectMetrics(): void {
+    const roles = { host: 0, listener: 0 };
+    for (const session of this.sessions.values()) {
+      for (const client of session) {
+        roles[client.role]++;
+      }
+    }
+    activeSessionsGauge.set({}, this.sessions.size);
+    clientsGauge.set({ role: "host" }, roles.host);
+    clientsGauge.set({ role: "listener" }, roles.listener);
+  }
+
+  private toMemberInfo(client: ClientMeta): MemberInfo {
+    return {
+      clientId: client.clientId,
+      role: client.role,
+      displayName: client.displayName ?? null,
+      connectedAt: client.connectedAt,
+    };
+  }
+
+  private hasHost(sessionId: string): boolean {
+    for (const member of this.getAllMembers(sessionId)) {
+      if (member.role === "host") return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether a host on this instance is connected (not waiting to resume)
+   * A host on another instance announces leaving and returning (HOST_OFFLINE, HOST_ONLINE, HOST_CHANGED),
+   * which start and clear the host-lost timer here.
+   */
+  private hasConnectedHost(sessionId: string): boolean {
+    for (const client of this.sessions.get(sessionId) ?? []) {
+      if (client.role === "host" && !this.suspendedClients.has(client)) return true;
+    }
+    return false;
+  }
+
+  private getListenerCount(sessionId: string): number {
+    let count = 0;
+    for (const member of this.getAllMembers(sessionId)) {
+      if (member.role === "listener") count++;
+    }
+    return count;
+  }
+
+  /**
+   * Local clients and members connected to other relay instances
+   */
+  private getAllMembers(sessionId: string): { role: "host" | "listener" }[] {
+    return [...(this.sessions.get(sessionId) ?? []), ...(this.remoteMembers.get(sessionId)?.values() ?? [])];
+  }
+
+  /**
+   * Get the latest host state for a session, advanced to the current time
+   * Position and timestamps are moved forward by the time elapsed since the snapshot if playing.
+   */
+  public getNowPlaying(sessionId: string): NowPlaying | null {
+    const nowPlaying = this.lastHostStates.get(sessionId);
+    if (!nowPlaying) {
+      return null;
+    }
+
+    const { state, match } = nowPlaying;
+    const now = Date.now();
+    const elapsedMs = now - (state.serverTimestampMs ?? now);
+
+    let positionSec = state.positionSec;
+    if (state.playbackState === "playing") {
+      positionSec += elapsedMs / 1000;
+      if (state.durationSec !== null) {
+        positionSec = Math.min(positionSec, state.durationSec);
+      }
+    }
+
+    return {
+      state: {
+        ...state,
+        positionSec,
+        hostTimestampMs: state.hostTimestampMs + elapsedMs,
+        serverTimestampMs: now,
+      },
+      match,
+    };
+  }
+
+  /**
+   * Get active session count (for debugging/monitoring)
+   */
+  public getActiveSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Get client count for a specific session
+   */
+  public getSessionClientCount(sessionId: string): number {
+    return this.sessions.get(sessionId)?.size ?? 0;
+  }
+
+  /**
+   * Ids of sessions with clients on this instance
+   */
+  public getActiveSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /**
+   * Clients connected to a session on this instance
+   */
+  public getSessionClients(sessionId: string): ClientSummary[] {
+    return [...(this.sessions.get(sessionId) ?? [])].map((client) => ({
+      clientId: client.clientId,
+      role: client.role,
+      isOwner: client.isOwner,
+      listenerId: client.listenerId ?? null,
+      displayName: client.displayName ?? null,
+      connectedAt: client.connectedAt,
+      suspended: this.suspendedClients.has(client),
+    }));
+  }
+
+  /**
+   * Disconnect every member of a session, on this and other relay instances
+   * Returns the number of clients disconnected here.
+   */
+  public closeSession(sessionId: string, reason: string): number {
+    this.publishToBroker(sessionId, { type: "SESSION_CLOSED", sessionId, reason }, "all");
+    return this.closeLocalSession(sessionId, reason);
+  }
+
+  /**
+   * Remove one client from a session
+   * Returns false if no member with that clientId is known to this instance.
+   */
+  public kickClient(sessionId: string, clientId: string, reason: string): boolean {
+    const client = [...(this.sessions.get(sessionId) ?? [])].find((member) => member.clientId === clientId);
+    if (client) {
+      this.kickLocalClient(client, reason);
+      return true;
+    }
+
+    if (this.remoteMembers.get(sessionId)?.has(clientId)) {
+      this.publishToBroker(sessionId, { type: "KICKED", sessionId, clientId, reason }, "all");
+      return true;
+    }
+    return false;
+  }
+
+  private closeLocalSession(sessionId: string, reason: string): number {
+    const session = this.sessions.get(sessionId);
+    if (!session) return 0;
+
+    const clients = [...session];
+    const closed = JSON.stringify({ type: "SESSION_CLOSED", sessionId, reason });
+    for (const client of clients) {
+      if (client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(closed);
+      }
+      client.socket.close(CLOSE_CODE_SESSION_CLOSED, "Session closed");
+    }
+
+    // Host last so the seat isn't handed around on the way out
+    for (const client of clients.filter((member) => member.role !== "host")) {
+      this.removeClient(client);
+    }
+    for (const client of clients.filter((member) => member.role === "host")) {
+      this.removeClient(client);
+    }
+
+    console.log(`Session ${sessionId} closed by admin (${clients.length} client(s) disconnected)`);
+    return clients.length;
+  }
+
+  private kickLocalClient(client: ClientMeta, reason: string): void {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(
+        JSON.stringify({ type: "KICKED", sessionId: client.sessionId, clientId: client.clientId, reason })
+      );
+    }
+    client.socket.close(CLOSE_CODE_KICKED, "Removed by admin");
+    console.log(`Client ${client.clientId} removed from session ${client.sessionId} by admin`);
+    this.removeClient(client);
   }
 }
 